@@ -6,18 +6,202 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Progress } from "@/components/ui/progress"
-import { Bluetooth, Users, Wifi, WifiOff, Trophy, Target, Gamepad2, Volume2, VolumeX } from "lucide-react"
-import { GameEngine } from "@/lib/game-engine"
-import { BluetoothManager } from "@/lib/bluetooth-manager"
+import { Bluetooth, Eye, Users, Wifi, WifiOff, Trophy, Target, Gamepad2, Volume2, VolumeX } from "lucide-react"
+import { GameEngine, MAX_PLAYERS, SHIP_COLORS } from "@/lib/game-engine"
+import { BluetoothManager, type RememberedDevice } from "@/lib/bluetooth-manager"
+import { createLoopbackPair, type LoopbackLinkOptions } from "@/lib/loopback-transport"
 import { AudioManager } from "@/lib/audio-manager"
-import type { NetworkGameData } from "@/lib/game-engine"
+import type { MatchSettings, NetworkGameData, PlayerProfile, ShipType } from "@/lib/game-engine"
+import type { ConnectionState, GameTransport } from "@/lib/transport"
+import type { ClockSyncStats } from "@/lib/clock-sync"
+import type { BandwidthStats } from "@/lib/bandwidth-meter"
+import { ReliableChannel, type ReliabilityStats } from "@/lib/reliable-channel"
+import { SessionHandshake, type PeerInfo, type SessionInfo } from "@/lib/session-handshake"
+import { HostHub } from "@/lib/host-hub"
+import { IDEAL_NETWORK_CONDITIONS, NetworkSimulator, type NetworkConditions } from "@/lib/network-simulator"
+import { WebRtcTransport } from "@/lib/webrtc-transport"
+import {
+  DEFAULT_RELAY_PORT,
+  ROOM_CODE_LENGTH,
+  WebSocketTransport,
+  generateRoomCode,
+  type WebSocketTransportOptions,
+} from "@/lib/websocket-transport"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+import { REGEXP_ONLY_DIGITS } from "input-otp"
+import { PAIRING_CODE_LENGTH, SignedTransport, deriveSessionKey, generatePairingCode } from "@/lib/signed-transport"
 
-type ConnectionState = "disconnected" | "connecting" | "connected"
 type GameState = "lobby" | "playing" | "paused" | "finished"
+type TransportKind = "bluetooth" | "webrtc" | "relay" | "loopback"
+
+// Transports the lobby can choose from at runtime
+const TRANSPORT_OPTIONS: { kind: TransportKind; label: string }[] = [
+  { kind: "bluetooth", label: "Bluetooth" },
+  { kind: "webrtc", label: "WebRTC (copy-paste codes)" },
+  { kind: "relay", label: "LAN relay (npm run relay)" },
+  { kind: "loopback", label: "Loopback (local peer)" },
+]
+
+// Link conditions for the in-page loopback peer, so the network path sees realistic traffic
+const LOOPBACK_LINK: LoopbackLinkOptions = { latencyMs: 40, jitterMs: 15, packetLoss: 0.02 }
+
+// Sliders of the network simulator panel: range and display unit of each condition
+const SIMULATOR_CONTROLS: { key: keyof NetworkConditions; label: string; max: number; step: number; percent: boolean }[] = [
+  { key: "latencyMs", label: "Latency (each way)", max: 500, step: 10, percent: false },
+  { key: "jitterMs", label: "Jitter", max: 200, step: 5, percent: false },
+  { key: "packetLoss", label: "Loss", max: 0.5, step: 0.01, percent: true },
+  { key: "duplicateRate", label: "Duplication", max: 0.5, step: 0.01, percent: true },
+  { key: "reorderRate", label: "Reordering", max: 0.5, step: 0.01, percent: true },
+]
+
+// How long a dropped opponent has to come back before the match is forfeited
+const RECONNECT_TIMEOUT_MS = 30000
+
+// How long the peers of a host that left have to find the new host
+const HOST_MIGRATION_TIMEOUT_MS = 15000
+
+// Match rules the host can choose from in the lobby
+const DURATION_OPTIONS = [180, 300, 600]
+const WIN_SCORE_OPTIONS = [500, 1000, 2000]
+
+// Identity of the headless loopback opponents; each one added flies the next ship
+const LOOPBACK_SHIPS: ShipType[] = ["ember", "glacier", "nova"]
+
+// Where the id of the last Bluetooth opponent is kept for one-tap rejoin
+const LAST_DEVICE_STORAGE_KEY = "stellar-clash:last-device"
+
+/**
+ * @param deviceId A remembered device to connect to without showing the chooser (Bluetooth)
+ * @param relay Relay address and room code (LAN relay)
+ */
+function createTransport(
+  kind: Exclude<TransportKind, "loopback">,
+  deviceId: string | undefined,
+  relay: WebSocketTransportOptions,
+): GameTransport {
+  switch (kind) {
+    case "bluetooth":
+      return new BluetoothManager({ reconnectTimeoutMs: RECONNECT_TIMEOUT_MS, deviceId })
+    case "webrtc":
+      return new WebRtcTransport()
+    case "relay":
+      return new WebSocketTransport(relay)
+  }
+}
+
+/**
+ * Formats a byte count for the link statistics, e.g. "840B" or "2.4kB"
+ */
+function formatBytes(bytes: number): string {
+  return bytes < 1000 ? `${bytes}B` : `${(bytes / 1000).toFixed(1)}kB`
+}
+
+/**
+ * Copy-paste signaling for a WebRTC link: shows this device's connection code for the other
+ * device and, on the host, takes the joiner's answer
+ */
+function ConnectionCodeExchange({
+  code,
+  answer,
+  onAnswerChange,
+  onConnect,
+}: {
+  code: string
+  answer?: string
+  onAnswerChange?: (answer: string) => void
+  onConnect?: () => void
+}) {
+  return (
+    <div className="space-y-2 text-left text-sm text-gray-300 w-80">
+      <div className="flex items-center justify-between">
+        <span>{onConnect ? "Offer for the next player" : "Answer for the host"}</span>
+        <Button variant="ghost" size="sm" onClick={() => navigator.clipboard.writeText(code)}>
+          Copy
+        </Button>
+      </div>
+      <Textarea readOnly value={code} className="h-20 bg-black/60 border-gray-600 font-mono text-xs" />
+      {onConnect && (
+        <>
+          <Textarea
+            value={answer}
+            placeholder="Paste the joiner's answer"
+            onChange={(e) => onAnswerChange?.(e.target.value)}
+            className="h-20 bg-black/60 border-gray-600 font-mono text-xs"
+          />
+          <Button onClick={onConnect} size="sm" className="w-full" disabled={!answer?.trim()}>
+            Connect
+          </Button>
+        </>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Shows the host's pairing code (and relay room, if any) for the joiner to type in
+ */
+function PairingCodeDisplay({ code, roomCode }: { code: string; roomCode?: string }) {
+  return (
+    <div className="text-sm text-gray-300">
+      Pairing code
+      <div className="font-mono text-3xl tracking-[0.3em] text-white">{code}</div>
+      {roomCode && (
+        <>
+          Relay room
+          <div className="font-mono text-xl tracking-[0.3em] text-white">{roomCode}</div>
+        </>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Sliders for the conditions every link of this device is degraded with
+ */
+function NetworkSimulatorPanel({
+  conditions,
+  onChange,
+}: {
+  conditions: NetworkConditions
+  onChange: (conditions: NetworkConditions) => void
+}) {
+  return (
+    <div className="space-y-1 text-left text-sm">
+      {SIMULATOR_CONTROLS.map((control) => (
+        <div key={control.key} className="flex items-center gap-2">
+          <label htmlFor={`sim-${control.key}`} className="w-32 text-gray-300">
+            {control.label}
+          </label>
+          <input
+            type="range"
+            id={`sim-${control.key}`}
+            min={0}
+            max={control.max}
+            step={control.step}
+            value={conditions[control.key]}
+            onChange={(e) => onChange({ ...conditions, [control.key]: Number(e.target.value) })}
+            className="flex-1"
+          />
+          <span className="w-14 text-right font-mono text-xs">
+            {control.percent
+              ? `${Math.round(conditions[control.key] * 100)}%`
+              : `${conditions[control.key]}ms`}
+          </span>
+        </div>
+      ))}
+      <Button variant="ghost" size="sm" className="w-full" onClick={() => onChange(IDEAL_NETWORK_CONDITIONS)}>
+        Reset to a clean link
+      </Button>
+    </div>
+  )
+}
 
 interface PlayerStats {
   id: string
   name: string
+  color: string
   score: number
   kills: number
   deaths: number
@@ -26,6 +210,20 @@ interface PlayerStats {
   energy: number
 }
 
+// A headless client engine running in this page over a loopback link
+interface LoopbackPeer {
+  engine: GameEngine
+  transport: ReliableChannel
+  handshake: SessionHandshake
+}
+
+// A host that left mid-match being replaced by one of its clients (see migrateHost)
+interface HostMigration {
+  successor: string       // Callsign of the pilot taking over
+  expectedPilots: number  // New host: pilots it waits for before resuming the match
+  deadline: number        // When the peers stop waiting for each other
+}
+
 interface GameStats {
   players: PlayerStats[]
   gameTime: number
@@ -36,8 +234,18 @@ interface GameStats {
 export default function StellarClash() {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const gameEngineRef = useRef<GameEngine | null>(null)
-  const bluetoothManagerRef = useRef<BluetoothManager | null>(null)
+  const transportRef = useRef<ReliableChannel | HostHub | null>(null)
+  const sessionKeyRef = useRef<CryptoKey | null>(null)
+  const roomCodeRef = useRef("") // Relay room every link of this session joins
+  const pendingRtcRef = useRef<WebRtcTransport | null>(null) // WebRTC link waiting for the other device's code
+  const localIdRef = useRef("")
+  const handshakesRef = useRef<Map<ReliableChannel, SessionHandshake>>(new Map()) // One per link
+  const clientIdsRef = useRef<Map<ReliableChannel, string>>(new Map()) // Host: player id behind each link
+  const loopbackPeersRef = useRef<LoopbackPeer[]>([])
+  const simulatorsRef = useRef<Set<NetworkSimulator>>(new Set()) // Every link's simulator, for live changes
   const audioManagerRef = useRef<AudioManager | null>(null)
+  const reconnectPilotsRef = useRef(0) // Pilots in the match when the link started reconnecting
+  const hostLeftRef = useRef(false) // Relay client: the last link ended because the host left
   const animationFrameRef = useRef<number>()
 
   const [connectionState, setConnectionState] = useState<ConnectionState>("disconnected")
@@ -46,16 +254,40 @@ export default function StellarClash() {
   const [playerId, setPlayerId] = useState<string>("")
   const [error, setError] = useState<string>("")
   const [debugMode, setDebugMode] = useState<boolean>(false)
+  const [transportKind, setTransportKind] = useState<TransportKind>("bluetooth")
+  const [showSimulator, setShowSimulator] = useState(false)
+  const [networkConditions, setNetworkConditions] = useState<NetworkConditions>(IDEAL_NETWORK_CONDITIONS)
   const [gameStats, setGameStats] = useState<GameStats>({
     players: [],
     gameTime: 0,
     powerUpsCollected: 0,
     totalShots: 0,
   })
+  const [networkStats, setNetworkStats] = useState<ClockSyncStats | null>(null)
+  const [reliabilityStats, setReliabilityStats] = useState<ReliabilityStats | null>(null)
+  const [bandwidthStats, setBandwidthStats] = useState<BandwidthStats | null>(null)
+  const [reconnectDeadline, setReconnectDeadline] = useState<number | null>(null)
+  const [reconnectSecondsLeft, setReconnectSecondsLeft] = useState(0)
+  const [opponentForfeited, setOpponentForfeited] = useState(false)
+  const [migration, setMigration] = useState<HostMigration | null>(null)
+  const [migrationSecondsLeft, setMigrationSecondsLeft] = useState(0)
+  const [profile, setProfile] = useState<PlayerProfile>({ callsign: "Pilot", ship: "viper" })
+  const [matchSettings, setMatchSettings] = useState<MatchSettings>({ durationSeconds: 300, winScore: 1000 })
+  const [session, setSession] = useState<SessionInfo | null>(null) // Client: agreement with the host
+  const [peers, setPeers] = useState<PeerInfo[]>([])                 // Host: clients that completed the handshake
+  const [spectating, setSpectating] = useState(false)                // Joined to watch rather than play
+  const [cameraTarget, setCameraTarget] = useState<string | null>(null) // Spectator: followed ship
+  const [pairingCode, setPairingCode] = useState("")   // Shown by the host, typed in by the joiner
+  const [roomCode, setRoomCode] = useState("")         // Relay room; shown by the host, typed in by the joiner
+  const [relayUrl, setRelayUrl] = useState(`ws://localhost:${DEFAULT_RELAY_PORT}`)
+  const [rtcSignal, setRtcSignal] = useState("") // WebRTC: this device's code for the pending link
+  const [rtcRemote, setRtcRemote] = useState("") // WebRTC: the other device's code, pasted in
+  const [rememberedDevices, setRememberedDevices] = useState<RememberedDevice[]>([])
+  const [lastDeviceId, setLastDeviceId] = useState<string | null>(null)
   const [soundEnabled, setSoundEnabled] = useState(true)
   const [showControls, setShowControls] = useState(false)
 
-  // Initialize game systems
+  // Initialize game systems once; transports are created on demand when hosting or joining
   useEffect(() => {
     const canvas = canvasRef.current
     if (!canvas) return
@@ -67,22 +299,43 @@ export default function StellarClash() {
     audioManagerRef.current = new AudioManager()
     gameEngineRef.current.setAudioManager(audioManagerRef.current)
 
-    // Initialize bluetooth manager
-    bluetoothManagerRef.current = new BluetoothManager({
-      onConnectionStateChange: setConnectionState,
-      onGameDataReceived: handleGameDataReceived,
-      onError: setError,
+    // Forward local state updates through whichever transport is currently active
+    gameEngineRef.current.setNetworkUpdateCallback((data) => {
+      transportRef.current?.send(data).catch((err) => reportSendFailure(data, err))
     })
 
-    // Set up game loop
+    // Follow match starts, pauses and endings triggered by the other peer
+    gameEngineRef.current.setMatchStateCallback(setGameState)
+
+    // Timestamp and interpolate network state on the host's clock
+    gameEngineRef.current.setClock(() => transportRef.current?.now() ?? Date.now())
+
+    // The relay usually runs on the machine serving the page
+    setRelayUrl(`ws://${window.location.hostname || "localhost"}:${DEFAULT_RELAY_PORT}`)
+
+    // Offer devices paired in earlier sessions for rejoining without the chooser
+    setLastDeviceId(localStorage.getItem(LAST_DEVICE_STORAGE_KEY))
+    refreshRememberedDevices()
+
+    return () => {
+      gameEngineRef.current?.cleanup()
+      closeTransport()
+      audioManagerRef.current?.cleanup()
+    }
+  }, [])
+
+  // Set up game loop
+  useEffect(() => {
     const gameLoop = () => {
       if (gameEngineRef.current && gameState === "playing") {
+        loopbackPeersRef.current.forEach((peer) => peer.engine.update())
         gameEngineRef.current.update()
         gameEngineRef.current.render()
 
         // Update game stats
         const stats = gameEngineRef.current.getGameStats()
         setGameStats(stats)
+        if (gameEngineRef.current.isSpectator()) setCameraTarget(gameEngineRef.current.getCameraTarget())
 
         // Check for game end conditions
         if (gameEngineRef.current.isGameFinished()) {
@@ -98,18 +351,430 @@ export default function StellarClash() {
       if (animationFrameRef.current) {
         cancelAnimationFrame(animationFrameRef.current)
       }
-      gameEngineRef.current?.cleanup()
-      bluetoothManagerRef.current?.disconnect()
-      audioManagerRef.current?.cleanup()
     }
   }, [gameState])
 
+  // Freeze the match while the link is being restored, then resume it or award a forfeit
+  useEffect(() => {
+    const engine = gameEngineRef.current
+    if (!engine) return
+
+    if (connectionState === "reconnecting" && (gameState === "playing" || gameState === "paused")) {
+      if (reconnectDeadline === null) {
+        engine.setOpponentConnected(false)
+        reconnectPilotsRef.current = engine.getGameStats().players.length
+        setReconnectDeadline(Date.now() + RECONNECT_TIMEOUT_MS)
+      }
+    } else if (connectionState === "connected" && reconnectDeadline !== null) {
+      engine.setOpponentConnected(true)
+      setReconnectDeadline(null)
+    } else if (connectionState === "disconnected" && reconnectDeadline !== null) {
+      abandonMatch(reconnectPilotsRef.current)
+      setReconnectDeadline(null)
+    }
+  }, [connectionState, gameState, reconnectDeadline, spectating, isHost])
+
+  // Count down to the forfeit; giving up on the link ends the match through the effect above
+  useEffect(() => {
+    if (reconnectDeadline === null) return
+
+    const tick = () => {
+      const remaining = reconnectDeadline - Date.now()
+      setReconnectSecondsLeft(Math.max(0, Math.ceil(remaining / 1000)))
+      if (remaining <= 0) {
+        const transport = transportRef.current
+        // A host keeps the clients that are still connected
+        if (transport instanceof HostHub) {
+          transport.disconnectReconnecting()
+        } else {
+          transport?.disconnect()
+        }
+      }
+    }
+    tick()
+    const interval = setInterval(tick, 250)
+
+    return () => clearInterval(interval)
+  }, [reconnectDeadline])
+
+  // Over the LAN relay a host that leaves mid-match is replaced instead of ending the match. A
+  // client that lost the relay itself gives up on the link like over any other transport.
+  useEffect(() => {
+    if (connectionState !== "disconnected" || isHost || !session || transportKind !== "relay") return
+    if ((gameState !== "playing" && gameState !== "paused") || !transportRef.current) return
+    if (hostLeftRef.current) {
+      migrateHost(session.peer)
+    } else if (gameEngineRef.current) {
+      abandonMatch(gameEngineRef.current.getGameStats().players.length)
+    }
+  }, [connectionState, gameState, isHost, session, transportKind])
+
+  // New host: resume as soon as every pilot is back; clients: done once the new host accepted us
+  useEffect(() => {
+    if (!migration) return
+    if (isHost && peers.filter((peer) => !peer.spectator).length >= migration.expectedPilots) {
+      resumeAfterMigration()
+    } else if (!isHost && session) {
+      setMigration(null)
+    }
+  }, [migration, isHost, peers, session])
+
+  // Count down the migration; at the deadline the new host resumes with whoever came back
+  useEffect(() => {
+    if (!migration) return
+
+    const tick = () => {
+      const remaining = migration.deadline - Date.now()
+      setMigrationSecondsLeft(Math.max(0, Math.ceil(remaining / 1000)))
+      if (remaining > 0) return
+      if (transportRef.current instanceof HostHub) {
+        resumeAfterMigration()
+      } else {
+        setError("The host left and no other pilot could take over the match.")
+        closeTransport()
+        setMigration(null)
+        setGameState("lobby")
+      }
+    }
+    tick()
+    const interval = setInterval(tick, 250)
+
+    return () => clearInterval(interval)
+  }, [migration])
+
+  // Poll link statistics for the header while connected
+  useEffect(() => {
+    if (connectionState !== "connected") {
+      setNetworkStats(null)
+      setReliabilityStats(null)
+      setBandwidthStats(null)
+      return
+    }
+
+    const interval = setInterval(() => {
+      setNetworkStats(transportRef.current?.getNetworkStats() ?? null)
+      setReliabilityStats(transportRef.current?.getReliabilityStats() ?? null)
+      setBandwidthStats(transportRef.current?.getBandwidthStats() ?? null)
+    }, 1000)
+
+    return () => clearInterval(interval)
+  }, [connectionState])
+
+  // Apply simulator changes to every open link, mid-match included
+  useEffect(() => {
+    simulatorsRef.current.forEach((simulator) => simulator.setConditions(networkConditions))
+  }, [networkConditions])
+
   const handleGameDataReceived = useCallback((data: NetworkGameData) => {
     if (gameEngineRef.current) {
       gameEngineRef.current.handleNetworkUpdate(data)
     }
   }, [])
 
+  /**
+   * Tears down the active transport, every link and handshake, and any loopback peers
+   */
+  const closeTransport = () => {
+    handshakesRef.current.forEach((handshake) => handshake.dispose())
+    handshakesRef.current.clear()
+    clientIdsRef.current.clear()
+    // Cleared first, so the transport's "disconnected" is recognizably our own doing
+    const transport = transportRef.current
+    transportRef.current = null
+    transport?.disconnect()
+    loopbackPeersRef.current.forEach((peer) => {
+      peer.handshake.dispose()
+      peer.transport.disconnect()
+      peer.engine.cleanup()
+    })
+    loopbackPeersRef.current = []
+    simulatorsRef.current.clear()
+    pendingRtcRef.current = null
+    setRtcSignal("")
+  }
+
+  /**
+   * Reports a message the engine sent without waiting for the result, the way transport errors
+   * are reported
+   */
+  const reportSendFailure = (data: NetworkGameData, err: unknown) => {
+    console.error(`Failed to send ${data.type} message:`, err)
+    setError(`Failed to send ${data.type} message`)
+  }
+
+  /**
+   * Makes a transport the one the local engine talks through and subscribes the page to it
+   */
+  const activateTransport = (transport: ReliableChannel | HostHub) => {
+    transport.onStateChange(setConnectionState)
+    transport.onMessage(handleGameDataReceived)
+    transport.onError(setError)
+    transportRef.current = transport
+  }
+
+  /**
+   * Creates a link of the selected kind to one other device, run through the network simulator,
+   * authenticated with the session key and wrapped in a reliable channel
+   */
+  const createLink = (sessionKey: CryptoKey, deviceId?: string): ReliableChannel => {
+    const link =
+      transportKind === "loopback"
+        ? startLoopbackPeer(sessionKey)
+        : createTransport(transportKind, deviceId, { url: relayUrl, room: roomCodeRef.current })
+    if (link instanceof WebRtcTransport) {
+      // Codes are exchanged by hand; the page shows ours until the link is up
+      pendingRtcRef.current = link
+      setRtcSignal("")
+      link.onSignal(setRtcSignal)
+      link.onStateChange((state) => {
+        if (state !== "connected" || pendingRtcRef.current !== link) return
+        pendingRtcRef.current = null
+        setRtcSignal("")
+        setRtcRemote("")
+      })
+    }
+    if (link instanceof WebSocketTransport) {
+      link.onStateChange((state) => {
+        hostLeftRef.current = state === "disconnected" && link.hasPeerLeft()
+      })
+    }
+    if (link instanceof BluetoothManager) {
+      link.onStateChange((state) => {
+        if (state === "connected") rememberDevice(link.getDeviceInfo())
+      })
+    }
+
+    const simulator = new NetworkSimulator(link, networkConditions)
+    simulatorsRef.current.add(simulator)
+    return new ReliableChannel(new SignedTransport(simulator, sessionKey))
+  }
+
+  const refreshRememberedDevices = () => {
+    BluetoothManager.getRememberedDevices()
+      .then(setRememberedDevices)
+      .catch((err) => console.warn("Could not list remembered devices:", err))
+  }
+
+  /**
+   * Stores the device we just connected to as the one to offer for rejoining
+   */
+  const rememberDevice = (device: RememberedDevice | null) => {
+    if (!device) return
+    localStorage.setItem(LAST_DEVICE_STORAGE_KEY, device.id)
+    setLastDeviceId(device.id)
+    refreshRememberedDevices()
+  }
+
+  /**
+   * Creates a loopback pair and a headless client engine on the far end, so a single page runs
+   * every side of the network path. Returns the host end of the pair.
+   * @param sessionKey Key derived from the pairing code; the peer signs with it too
+   */
+  const startLoopbackPeer = (sessionKey: CryptoKey): GameTransport => {
+    const [hostTransport, peerLink] = createLoopbackPair(LOOPBACK_LINK)
+    const peerTransport = new ReliableChannel(new SignedTransport(peerLink, sessionKey))
+    const index = loopbackPeersRef.current.length
+    const peerProfile: PlayerProfile = {
+      callsign: `Loopback ${index + 1}`,
+      ship: LOOPBACK_SHIPS[index % LOOPBACK_SHIPS.length],
+    }
+
+    const peerCanvas = document.createElement("canvas")
+    peerCanvas.width = 800
+    peerCanvas.height = 600
+    const peerEngine = new GameEngine(peerCanvas, { captureInput: false })
+
+    peerEngine.setNetworkUpdateCallback((data) => {
+      peerTransport.send(data).catch((err) => reportSendFailure(data, err))
+    })
+    peerTransport.onMessage((data) => peerEngine.handleNetworkUpdate(data))
+    peerEngine.setClock(() => peerTransport.now())
+
+    const peerHandshake = new SessionHandshake(peerTransport, "client", peerProfile, matchSettings)
+    peerHandshake.onReady((info) => {
+      peerEngine.setMatchSettings(info.settings)
+      peerEngine.setPlayerProfile(info.peer.playerId, info.peer)
+    })
+    peerTransport.connect("client").then((id) => {
+      peerEngine.initializeAsClient(id)
+      peerEngine.setPlayerProfile(id, peerProfile)
+      peerHandshake.start(id)
+    })
+
+    loopbackPeersRef.current.push({ engine: peerEngine, transport: peerTransport, handshake: peerHandshake })
+
+    return hostTransport
+  }
+
+  /**
+   * Runs the session handshake on a link that is about to connect. Game messages are only
+   * meaningful once both sides agreed on protocol version and match settings.
+   * @param spectator Client only: join to watch without a ship
+   */
+  const prepareHandshake = (link: ReliableChannel, role: "host" | "client", spectator = false): SessionHandshake => {
+    const handshake = new SessionHandshake(
+      link,
+      role,
+      { ...profile, callsign: profile.callsign.trim() },
+      matchSettings,
+      spectator,
+    )
+    handshake.onReady((info) => {
+      const engine = gameEngineRef.current
+      if (role === "client") {
+        engine?.setMatchSettings(info.settings)
+        engine?.setPlayerProfile(info.peer.playerId, info.peer)
+        setSession(info)
+        return
+      }
+
+      // Only this player's input and acks are accepted on its link from now on
+      const hub = transportRef.current
+      if (hub instanceof HostHub) hub.bindPlayer(link, info.peer.playerId)
+
+      // Bring the new client onto the host's map (and into the match if one is running)
+      if (info.peer.spectator) {
+        if (hub instanceof HostHub) hub.markSpectator(link)
+        engine?.addSpectator(info.peer.playerId)
+      } else if (engine && !engine.addRemotePlayer(info.peer.playerId, info.peer)) {
+        setError(`The match is full; ${info.peer.callsign} can still join as a spectator.`)
+        link.disconnect()
+        return
+      }
+      clientIdsRef.current.set(link, info.peer.playerId)
+      engine?.sendWorldSnapshot("join")
+      setPeers((current) => [...current.filter((peer) => peer.playerId !== info.peer.playerId), info.peer])
+    })
+    handshake.onFailed((reason) => {
+      setError(reason)
+      link.disconnect()
+    })
+    handshakesRef.current.set(link, handshake)
+
+    return handshake
+  }
+
+  /**
+   * Host only: a client left for good, so its ship leaves the match
+   */
+  const handleClientLeft = (link: ReliableChannel) => {
+    handshakesRef.current.get(link)?.dispose()
+    handshakesRef.current.delete(link)
+    const clientId = clientIdsRef.current.get(link)
+    clientIdsRef.current.delete(link)
+    if (!clientId) return
+
+    gameEngineRef.current?.removePlayer(clientId)
+    setPeers((current) => current.filter((peer) => peer.playerId !== clientId))
+  }
+
+  /**
+   * Ends the match after the link to the other side was lost for good. Only a 1v1 is won by
+   * forfeit: spectators have nobody to win against, and with more pilots the ones still flying
+   * decide the match, so we just leave it.
+   * @param pilots Pilots in the match when the link was lost
+   */
+  const abandonMatch = (pilots: number) => {
+    if (spectating || pilots > 2) {
+      setError(isHost ? "Every other pilot left the match." : "The connection to the host was lost.")
+      setGameState("lobby")
+    } else {
+      gameEngineRef.current?.forfeitMatch()
+      setOpponentForfeited(true)
+    }
+  }
+
+  /**
+   * Replaces a host that left mid-match (LAN relay only, where peers can find each other again
+   * without the user). The first pilot after the host in handshake order hosts the match from
+   * its latest state in the same relay room; everyone else joins that room again.
+   * @param formerHost The host that left
+   */
+  const migrateHost = async (formerHost: PeerInfo) => {
+    const engine = gameEngineRef.current
+    const sessionKey = sessionKeyRef.current
+    if (!engine || !sessionKey) return
+
+    closeTransport()
+    setSession(null)
+    setPeers([])
+    const successorId = engine.getHostSuccessor(formerHost.playerId)
+    if (!successorId) {
+      setError(`${formerHost.callsign} left and no other pilot is in the match.`)
+      setGameState("lobby")
+      return
+    }
+    const successor = engine.getGameStats().players.find((player) => player.id === successorId)
+    const deadline = Date.now() + HOST_MIGRATION_TIMEOUT_MS
+
+    try {
+      if (successorId === localIdRef.current) {
+        engine.promoteToHost(formerHost.playerId)
+        const hub = new HostHub()
+        hub.onClientLeft(handleClientLeft)
+        activateTransport(hub)
+        await hub.connect("host")
+        setIsHost(true)
+        setMigration({
+          successor: successor?.name ?? "You",
+          expectedPilots: engine.getGameStats().players.length - 1,
+          deadline,
+        })
+        acceptMigratingPeer(hub, sessionKey, deadline)
+        return
+      }
+
+      engine.followNewHost(formerHost.playerId)
+      setMigration({ successor: successor?.name ?? "Another pilot", expectedPilots: 0, deadline })
+      const link = createLink(sessionKey)
+      activateTransport(link)
+      const handshake = prepareHandshake(link, "client", spectating)
+      await link.connect("client")
+      // Same id as before, so the new host finds our ship in its copy of the match
+      handshake.start(localIdRef.current)
+    } catch (err) {
+      // Giving up at the deadline closes the link; that is reported there
+      if (transportRef.current) setError(err instanceof Error ? err.message : "Failed to reach the new host")
+    }
+  }
+
+  /**
+   * New host after a migration: waits for one returning peer on the relay, and for the next one
+   * once it arrived, until the migration deadline
+   */
+  const acceptMigratingPeer = (hub: HostHub, sessionKey: CryptoKey, deadline: number) => {
+    if (transportRef.current !== hub || Date.now() >= deadline) return
+
+    const link = createLink(sessionKey)
+    const handshake = prepareHandshake(link, "host")
+    const giveUp = setTimeout(() => link.disconnect(), deadline - Date.now())
+    hub
+      .addClient(link)
+      .then(() => {
+        clearTimeout(giveUp)
+        handshake.start(localIdRef.current)
+        acceptMigratingPeer(hub, sessionKey, deadline)
+      })
+      .catch(() => {
+        clearTimeout(giveUp)
+        handshake.dispose()
+        handshakesRef.current.delete(link)
+      })
+  }
+
+  /**
+   * New host: unfreezes the match for the peers that came back; pilots that did not have left
+   */
+  const resumeAfterMigration = () => {
+    const engine = gameEngineRef.current
+    const returned = new Set(clientIdsRef.current.values())
+    engine?.getGameStats().players.forEach((player) => {
+      if (player.id !== localIdRef.current && !returned.has(player.id)) engine.removePlayer(player.id)
+    })
+    engine?.setOpponentConnected(true)
+    setMigration(null)
+  }
+
   const startAsHost = async () => {
     try {
       setError("")
@@ -133,32 +798,100 @@ export default function StellarClash() {
         return
       }
       
-      if (!bluetoothManagerRef.current) return
+      closeTransport()
+      setSession(null)
+      setPeers([])
+      setSpectating(false)
 
-      const id = await bluetoothManagerRef.current.startAsHost()
-      setPlayerId(id)
+      // Joiners type this code in; everyone derives the key that signs every message from it
+      const code = generatePairingCode()
+      setPairingCode(code)
+      setRtcRemote("")
+      roomCodeRef.current = transportKind === "relay" ? generateRoomCode() : ""
+      setRoomCode(roomCodeRef.current)
       setIsHost(true)
+      sessionKeyRef.current = await deriveSessionKey(code)
+
+      const hub = new HostHub()
+      hub.onClientLeft(handleClientLeft)
+      activateTransport(hub)
+      const id = await hub.connect("host")
+      localIdRef.current = id
+      setPlayerId(id)
 
       if (gameEngineRef.current) {
         gameEngineRef.current.initializeAsHost(id)
+        gameEngineRef.current.setPlayerProfile(id, profile)
       }
+      await invitePlayer()
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to start as host")
     }
   }
 
-  const joinGame = async () => {
+  /**
+   * Host only: opens a link to one more client (the device chooser, or another loopback peer)
+   */
+  const invitePlayer = async () => {
+    const hub = transportRef.current
+    const sessionKey = sessionKeyRef.current
+    if (!(hub instanceof HostHub) || !sessionKey) return
+
+    try {
+      setError("")
+      const link = createLink(sessionKey)
+      const handshake = prepareHandshake(link, "host")
+      await hub.addClient(link)
+      handshake.start(localIdRef.current)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add a player")
+    }
+  }
+
+  /**
+   * Host only: completes the pending WebRTC link with the answer the joiner sent back
+   */
+  const acceptRtcAnswer = async () => {
+    try {
+      setError("")
+      await pendingRtcRef.current?.acceptSignal(rtcRemote)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Invalid connection code")
+    }
+  }
+
+  /**
+   * @param deviceId A remembered device to rejoin; shows the device chooser when omitted
+   * @param spectate Watch the match instead of flying a ship
+   */
+  const joinGame = async (deviceId?: string, spectate = false) => {
     try {
       setError("")
-      if (!bluetoothManagerRef.current) return
+      closeTransport()
+      setSession(null)
+      setPeers([])
+      setCameraTarget(null)
+      roomCodeRef.current = roomCode
 
-      const id = await bluetoothManagerRef.current.joinGame()
+      sessionKeyRef.current = await deriveSessionKey(pairingCode)
+      const transport = createLink(sessionKeyRef.current, deviceId)
+      activateTransport(transport)
+      // Over WebRTC the host's offer has to be in place before the link can connect
+      await pendingRtcRef.current?.acceptSignal(rtcRemote)
+      const handshake = prepareHandshake(transport, "client", spectate)
+      const id = await transport.connect("client")
+      localIdRef.current = id
       setPlayerId(id)
       setIsHost(false)
+      setSpectating(spectate)
 
-      if (gameEngineRef.current) {
+      if (gameEngineRef.current && spectate) {
+        gameEngineRef.current.initializeAsSpectator(id)
+      } else if (gameEngineRef.current) {
         gameEngineRef.current.initializeAsClient(id)
+        gameEngineRef.current.setPlayerProfile(id, profile)
       }
+      handshake.start(id)
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to join game")
     }
@@ -177,16 +910,20 @@ export default function StellarClash() {
 
   const pauseGame = () => {
     if (gameState === "paused") {
+      gameEngineRef.current?.setPaused(false)
       setGameState("playing");
     } else if (gameState === "playing") {
+      gameEngineRef.current?.setPaused(true)
       setGameState("paused");
     }
   }
 
   const resetGame = () => {
     if (gameEngineRef.current) {
+      loopbackPeersRef.current.forEach((peer) => peer.engine.resetGame())
       gameEngineRef.current.resetGame()
       setGameState("lobby")
+      setOpponentForfeited(false)
       setGameStats({
         players: [],
         gameTime: 0,
@@ -197,9 +934,19 @@ export default function StellarClash() {
   }
 
   const disconnect = () => {
-    bluetoothManagerRef.current?.disconnect()
+    // Leaving on purpose is not a forfeit by the opponent
+    setReconnectDeadline(null)
+    setOpponentForfeited(false)
+    setMigration(null)
+    closeTransport()
+    setSession(null)
+    setPeers([])
+    setPairingCode("")
+    setRoomCode("")
+    setRtcRemote("")
     setGameState("lobby")
     setPlayerId("")
+    setSpectating(false)
   }
 
   const toggleSound = () => {
@@ -215,11 +962,32 @@ export default function StellarClash() {
         return <Wifi className="w-4 h-4 text-green-500" />
       case "connecting":
         return <Bluetooth className="w-4 h-4 text-blue-500 animate-pulse" />
+      case "reconnecting":
+        return <Bluetooth className="w-4 h-4 text-yellow-500 animate-pulse" />
       default:
         return <WifiOff className="w-4 h-4 text-gray-500" />
     }
   }
 
+  // Host lobby: clients flying a ship and clients only watching
+  const pilots = peers.filter((peer) => !peer.spectator)
+  const watchers = peers.filter((peer) => peer.spectator)
+
+  // Joining needs the host's pairing code, and over the relay its room code or over WebRTC its offer as well
+  const canJoin =
+    profile.callsign.trim() !== "" &&
+    pairingCode.length === PAIRING_CODE_LENGTH &&
+    (transportKind !== "relay" || roomCode.length === ROOM_CODE_LENGTH) &&
+    (transportKind !== "webrtc" || rtcRemote.trim() !== "")
+
+  // Whether the simulator is degrading the links right now
+  const simulatingBadLink = SIMULATOR_CONTROLS.some((control) => networkConditions[control.key] > 0)
+
+  // Remembered devices for one-tap rejoin, last opponent first
+  const rejoinDevices = [...rememberedDevices]
+    .sort((a, b) => Number(b.id === lastDeviceId) - Number(a.id === lastDeviceId))
+    .slice(0, 3)
+
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60)
     const secs = seconds % 60
@@ -246,6 +1014,26 @@ export default function StellarClash() {
             <div className="flex gap-2">
               {getStatusIcon()}
               <Badge variant={connectionState === "connected" ? "default" : "secondary"}>{connectionState}</Badge>
+              {simulatingBadLink && <Badge variant="destructive">simulated link</Badge>}
+              {networkStats && networkStats.samples > 0 && (
+                <span className="text-xs text-gray-400 self-center font-mono">
+                  RTT {Math.round(networkStats.rtt)}ms ±{Math.round(networkStats.jitter)} · offset{" "}
+                  {networkStats.offset >= 0 ? "+" : ""}
+                  {Math.round(networkStats.offset)}ms
+                  {reliabilityStats && (
+                    <>
+                      {" "}· loss {(reliabilityStats.lossRate * 100).toFixed(1)}% · resent{" "}
+                      {reliabilityStats.retransmits}
+                    </>
+                  )}
+                  {bandwidthStats && (
+                    <>
+                      {" "}· ↑{formatBytes(bandwidthStats.sentBytesPerSecond)}/s ↓
+                      {formatBytes(bandwidthStats.receivedBytesPerSecond)}/s
+                    </>
+                  )}
+                </span>
+              )}
             </div>
           </div>
         </div>
@@ -281,30 +1069,260 @@ export default function StellarClash() {
                                 />
                                 <label htmlFor="debug-mode" className="text-sm">Debug Mode</label>
                               </div>
-                              {debugMode && (
+                              <div className="flex items-center">
+                                <input
+                                  type="checkbox"
+                                  id="network-simulator"
+                                  checked={showSimulator}
+                                  onChange={() => setShowSimulator(!showSimulator)}
+                                  className="mr-2 h-4 w-4"
+                                />
+                                <label htmlFor="network-simulator" className="text-sm">Simulate Network</label>
+                              </div>
+                              {debugMode ? (
                                 <span className="text-xs text-gray-400">
                                   (Test locally without Bluetooth)
                                 </span>
+                              ) : (
+                                <div className="flex items-center">
+                                  <label htmlFor="transport-kind" className="text-sm mr-2">Transport</label>
+                                  <select
+                                    id="transport-kind"
+                                    value={transportKind}
+                                    onChange={(e) => setTransportKind(e.target.value as TransportKind)}
+                                    className="bg-black/60 border border-gray-600 rounded px-2 py-1 text-sm"
+                                  >
+                                    {TRANSPORT_OPTIONS.map((option) => (
+                                      <option key={option.kind} value={option.kind}>
+                                        {option.label}
+                                      </option>
+                                    ))}
+                                  </select>
+                                </div>
                               )}
                             </div>
-                            <Button onClick={startAsHost} size="lg" className="w-full">
+                            {showSimulator && (
+                              <NetworkSimulatorPanel conditions={networkConditions} onChange={setNetworkConditions} />
+                            )}
+                            {!debugMode && (
+                              <div className="space-y-2 text-left">
+                                <div className="flex items-center gap-2">
+                                  <label htmlFor="callsign" className="text-sm w-20">Callsign</label>
+                                  <Input
+                                    id="callsign"
+                                    value={profile.callsign}
+                                    maxLength={16}
+                                    onChange={(e) => setProfile({ ...profile, callsign: e.target.value })}
+                                    className="h-8 bg-black/60 border-gray-600"
+                                  />
+                                </div>
+                                <div className="flex items-center gap-2">
+                                  <label htmlFor="ship" className="text-sm w-20">Ship</label>
+                                  <select
+                                    id="ship"
+                                    value={profile.ship}
+                                    onChange={(e) => setProfile({ ...profile, ship: e.target.value as ShipType })}
+                                    className="flex-1 bg-black/60 border border-gray-600 rounded px-2 py-1 text-sm"
+                                    style={{ color: SHIP_COLORS[profile.ship].stroke }}
+                                  >
+                                    {(Object.keys(SHIP_COLORS) as ShipType[]).map((ship) => (
+                                      <option key={ship} value={ship}>
+                                        {ship}
+                                      </option>
+                                    ))}
+                                  </select>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                  <label htmlFor="match-duration" className="text-sm w-20">Match</label>
+                                  <select
+                                    id="match-duration"
+                                    value={matchSettings.durationSeconds}
+                                    onChange={(e) =>
+                                      setMatchSettings({ ...matchSettings, durationSeconds: Number(e.target.value) })
+                                    }
+                                    className="flex-1 bg-black/60 border border-gray-600 rounded px-2 py-1 text-sm"
+                                  >
+                                    {DURATION_OPTIONS.map((seconds) => (
+                                      <option key={seconds} value={seconds}>
+                                        {seconds / 60} min
+                                      </option>
+                                    ))}
+                                  </select>
+                                  <select
+                                    id="win-score"
+                                    aria-label="Winning score"
+                                    value={matchSettings.winScore}
+                                    onChange={(e) => setMatchSettings({ ...matchSettings, winScore: Number(e.target.value) })}
+                                    className="flex-1 bg-black/60 border border-gray-600 rounded px-2 py-1 text-sm"
+                                  >
+                                    {WIN_SCORE_OPTIONS.map((score) => (
+                                      <option key={score} value={score}>
+                                        first to {score}
+                                      </option>
+                                    ))}
+                                  </select>
+                                </div>
+                                <p className="text-xs text-gray-400">Match settings apply when you host.</p>
+                              </div>
+                            )}
+                            <Button onClick={startAsHost} size="lg" className="w-full" disabled={!profile.callsign.trim()}>
                               <Users className="w-4 h-4 mr-2" />
                               {debugMode ? "Start Debug Game" : "Host Battle"}
                             </Button>
-                            {!debugMode && (
-                              <Button onClick={joinGame} variant="outline" size="lg" className="w-full">
+                            {!debugMode && transportKind === "relay" && (
+                              <div className="space-y-2 text-left">
+                                <div className="flex items-center gap-2">
+                                  <label htmlFor="relay-url" className="text-sm w-20">Relay</label>
+                                  <Input
+                                    id="relay-url"
+                                    value={relayUrl}
+                                    onChange={(e) => setRelayUrl(e.target.value)}
+                                    className="h-8 bg-black/60 border-gray-600 font-mono"
+                                  />
+                                </div>
+                                <div className="flex items-center gap-2">
+                                  <label htmlFor="room-code" className="text-sm w-20">Room</label>
+                                  <Input
+                                    id="room-code"
+                                    value={roomCode}
+                                    maxLength={ROOM_CODE_LENGTH}
+                                    placeholder="from the host"
+                                    onChange={(e) => setRoomCode(e.target.value.toUpperCase())}
+                                    className="h-8 bg-black/60 border-gray-600 font-mono tracking-[0.3em]"
+                                  />
+                                </div>
+                              </div>
+                            )}
+                            {!debugMode && transportKind === "webrtc" && (
+                              <Textarea
+                                aria-label="Offer from the host"
+                                value={rtcRemote}
+                                placeholder="Paste the host's offer to join"
+                                onChange={(e) => setRtcRemote(e.target.value)}
+                                className="h-16 bg-black/60 border-gray-600 font-mono text-xs"
+                              />
+                            )}
+                            {!debugMode && transportKind !== "loopback" && (
+                              <div className="flex flex-col items-center gap-1">
+                                <label className="text-sm text-gray-300">Pairing code from the host</label>
+                                <InputOTP
+                                  maxLength={PAIRING_CODE_LENGTH}
+                                  pattern={REGEXP_ONLY_DIGITS}
+                                  value={pairingCode}
+                                  onChange={setPairingCode}
+                                >
+                                  <InputOTPGroup>
+                                    {Array.from({ length: PAIRING_CODE_LENGTH }, (_, index) => (
+                                      <InputOTPSlot key={index} index={index} />
+                                    ))}
+                                  </InputOTPGroup>
+                                </InputOTP>
+                              </div>
+                            )}
+                            {!debugMode && transportKind !== "loopback" && (
+                              <Button
+                                onClick={() => joinGame()}
+                                variant="outline"
+                                size="lg"
+                                className="w-full"
+                                disabled={!canJoin}
+                              >
                                 <Bluetooth className="w-4 h-4 mr-2" />
                                 Join Battle
                               </Button>
                             )}
+                            {!debugMode && transportKind !== "loopback" && (
+                              <Button
+                                onClick={() => joinGame(undefined, true)}
+                                variant="ghost"
+                                size="sm"
+                                className="w-full"
+                                disabled={!canJoin}
+                              >
+                                <Eye className="w-4 h-4 mr-2" />
+                                Watch as Spectator
+                              </Button>
+                            )}
+                            {!debugMode && transportKind === "bluetooth" &&
+                              rejoinDevices.map((device) => (
+                                <Button
+                                  key={device.id}
+                                  onClick={() => joinGame(device.id)}
+                                  variant="ghost"
+                                  size="sm"
+                                  className="w-full"
+                                  disabled={!canJoin}
+                                >
+                                  <Bluetooth className="w-4 h-4 mr-2" />
+                                  Rejoin {device.name}
+                                  {device.id === lastDeviceId && <span className="ml-1 text-xs text-gray-400">(last opponent)</span>}
+                                </Button>
+                              ))}
+                          </div>
+                        ) : connectionState === "connected" && isHost ? (
+                          <div className="space-y-2">
+                            <Button onClick={startGame} size="lg" disabled={pilots.length === 0 && !debugMode}>
+                              <Target className="w-4 h-4 mr-2" />
+                              Launch Game
+                            </Button>
+                            {!debugMode && (
+                              <div className="text-sm text-gray-300">
+                                {pilots.length > 0
+                                  ? `Pilots: ${pilots.map((peer) => peer.callsign).join(", ")}`
+                                  : "Negotiating match settings..."}
+                                {watchers.length > 0 && ` · Spectators: ${watchers.map((peer) => peer.callsign).join(", ")}`}
+                              </div>
+                            )}
+                            {!debugMode && !rtcSignal && (
+                              <Button onClick={invitePlayer} variant="outline" size="sm">
+                                {pilots.length + 1 < MAX_PLAYERS ? (
+                                  <>
+                                    <Users className="w-4 h-4 mr-2" />
+                                    Add Player ({pilots.length + 1}/{MAX_PLAYERS})
+                                  </>
+                                ) : (
+                                  <>
+                                    <Eye className="w-4 h-4 mr-2" />
+                                    Add Spectator
+                                  </>
+                                )}
+                              </Button>
+                            )}
+                            {!debugMode && <PairingCodeDisplay code={pairingCode} roomCode={roomCode} />}
+                            {rtcSignal && (
+                              <ConnectionCodeExchange
+                                code={rtcSignal}
+                                answer={rtcRemote}
+                                onAnswerChange={setRtcRemote}
+                                onConnect={acceptRtcAnswer}
+                              />
+                            )}
                           </div>
                         ) : connectionState === "connected" ? (
-                          <Button onClick={startGame} size="lg">
-                            <Target className="w-4 h-4 mr-2" />
-                            Launch Game
-                          </Button>
+                          <div className="space-y-1">
+                            <div className="text-blue-400">Waiting for host to launch...</div>
+                            <div className="text-sm text-gray-300">
+                              {session
+                                ? `${spectating ? "Watching" : "vs"} ${session.peer.callsign} · ${session.settings.durationSeconds / 60} min · first to ${session.settings.winScore}`
+                                : "Negotiating match settings..."}
+                            </div>
+                          </div>
                         ) : (
-                          <div className="text-blue-400">Connecting...</div>
+                          <div className="space-y-2">
+                            <div className="text-blue-400">Connecting...</div>
+                            {isHost && <PairingCodeDisplay code={pairingCode} roomCode={roomCode} />}
+                            {rtcSignal &&
+                              (isHost ? (
+                                <ConnectionCodeExchange
+                                  code={rtcSignal}
+                                  answer={rtcRemote}
+                                  onAnswerChange={setRtcRemote}
+                                  onConnect={acceptRtcAnswer}
+                                />
+                              ) : (
+                                <ConnectionCodeExchange code={rtcSignal} />
+                              ))}
+                          </div>
                         )}
                       </div>
                     </div>
@@ -314,9 +1332,43 @@ export default function StellarClash() {
                     <div className="absolute inset-0 bg-black/80 flex items-center justify-center rounded-lg">
                       <div className="text-center space-y-4">
                         <h2 className="text-2xl font-bold">Game Paused</h2>
-                        <Button onClick={pauseGame} size="lg">
-                          Resume Battle
-                        </Button>
+                        {spectating ? (
+                          <p className="text-gray-300">The match resumes when a pilot unpauses it.</p>
+                        ) : (
+                          <Button onClick={pauseGame} size="lg">
+                            Resume Battle
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  )}
+
+                  {reconnectDeadline !== null && gameState !== "finished" && (
+                    <div className="absolute inset-0 bg-black/80 flex items-center justify-center rounded-lg">
+                      <div className="text-center space-y-4 w-64">
+                        <WifiOff className="w-12 h-12 text-yellow-500 mx-auto animate-pulse" />
+                        <h2 className="text-2xl font-bold">{spectating ? "Waiting for host" : "Waiting for opponent"}</h2>
+                        <p className="text-gray-300">
+                          {spectating
+                            ? `Reconnecting... giving up in ${reconnectSecondsLeft}s`
+                            : `Reconnecting... the match is forfeited in ${reconnectSecondsLeft}s`}
+                        </p>
+                        <Progress value={(reconnectSecondsLeft / (RECONNECT_TIMEOUT_MS / 1000)) * 100} />
+                      </div>
+                    </div>
+                  )}
+
+                  {migration && gameState !== "finished" && (
+                    <div className="absolute inset-0 bg-black/80 flex items-center justify-center rounded-lg">
+                      <div className="text-center space-y-4 w-72">
+                        <Users className="w-12 h-12 text-yellow-500 mx-auto animate-pulse" />
+                        <h2 className="text-2xl font-bold">The host left</h2>
+                        <p className="text-gray-300">
+                          {isHost
+                            ? `You are hosting now. Waiting for ${migration.expectedPilots} ${migration.expectedPilots === 1 ? "pilot" : "pilots"} to rejoin... ${migrationSecondsLeft}s`
+                            : `${migration.successor} is taking over the match... ${migrationSecondsLeft}s`}
+                        </p>
+                        <Progress value={(migrationSecondsLeft / (HOST_MIGRATION_TIMEOUT_MS / 1000)) * 100} />
                       </div>
                     </div>
                   )}
@@ -326,6 +1378,9 @@ export default function StellarClash() {
                       <div className="text-center space-y-4">
                         <Trophy className="w-16 h-16 text-yellow-500 mx-auto" />
                         <h2 className="text-2xl font-bold">Battle Complete!</h2>
+                        {opponentForfeited && (
+                          <p className="text-gray-300">Your opponent did not return. You win by forfeit.</p>
+                        )}
                         <div className="space-x-2">
                           <Button onClick={resetGame} size="lg">
                             New Battle
@@ -351,7 +1406,23 @@ export default function StellarClash() {
                   </Button>
                 </div>
               </CardHeader>
-              {showControls && (
+              {showControls && spectating && (
+                <CardContent className="pt-0">
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    <div>
+                      <div className="font-semibold mb-2">Camera</div>
+                      <div>WASD / Arrows - Pan</div>
+                      <div>Q / E - Zoom out / in</div>
+                    </div>
+                    <div>
+                      <div className="font-semibold mb-2">Follow</div>
+                      <div>1-{MAX_PLAYERS} - Follow pilot</div>
+                      <div>0 - Free camera</div>
+                    </div>
+                  </div>
+                </CardContent>
+              )}
+              {showControls && !spectating && (
                 <CardContent className="pt-0">
                   <div className="grid grid-cols-2 gap-4 text-sm">
                     <div>
@@ -384,7 +1455,19 @@ export default function StellarClash() {
                   {gameStats.players.map((player) => (
                     <div key={player.id} className="space-y-2">
                       <div className="flex justify-between items-center">
-                        <span className="font-medium">{player.name}</span>
+                        <span className="font-medium" style={{ color: player.color }}>
+                          {player.name}
+                        </span>
+                        {spectating && (
+                          <Button
+                            variant={cameraTarget === player.id ? "default" : "ghost"}
+                            size="sm"
+                            className="h-6 px-2 text-xs"
+                            onClick={() => gameEngineRef.current?.setCameraTarget(player.id)}
+                          >
+                            {cameraTarget === player.id ? "Following" : "Follow"}
+                          </Button>
+                        )}
                         <Badge variant="outline">{player.score}</Badge>
                       </div>
 
@@ -457,9 +1540,20 @@ export default function StellarClash() {
             {gameState === "playing" && (
               <Card className="bg-white/30 border-gray-700">
                 <CardContent className="pt-6 space-y-2">
-                  <Button onClick={pauseGame} variant="outline" className="w-full bg-transparent">
-                    Pause
-                  </Button>
+                  {spectating ? (
+                    <Button
+                      onClick={() => gameEngineRef.current?.setCameraTarget(null)}
+                      variant="outline"
+                      className="w-full bg-transparent"
+                      disabled={cameraTarget === null}
+                    >
+                      Free Camera
+                    </Button>
+                  ) : (
+                    <Button onClick={pauseGame} variant="outline" className="w-full bg-transparent">
+                      Pause
+                    </Button>
+                  )}
                   <Button onClick={disconnect} variant="destructive" className="w-full">
                     Disconnect
                   </Button>
@@ -467,6 +1561,18 @@ export default function StellarClash() {
               </Card>
             )}
 
+            {/* Network simulator, adjustable while connected once the lobby form is gone */}
+            {showSimulator && !(gameState === "lobby" && connectionState === "disconnected") && (
+              <Card className="bg-white/30 border-gray-700">
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm">Network Simulator</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <NetworkSimulatorPanel conditions={networkConditions} onChange={setNetworkConditions} />
+                </CardContent>
+              </Card>
+            )}
+
             {/* Technical Info - Full Width */}
             <Card className="w-full bg-white/30 border-gray-700">
               <CardHeader className="pb-2">
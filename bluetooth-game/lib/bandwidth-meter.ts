@@ -0,0 +1,75 @@
+/**
+ * Traffic over the last second, in both directions
+ */
+export interface BandwidthStats {
+  sentBytesPerSecond: number      // Bytes written to the link, including framing and wrappers
+  receivedBytesPerSecond: number  // Bytes read from the link
+  sentPacketsPerSecond: number    // Writes to the link (BLE frames, loopback messages, ...)
+  receivedPacketsPerSecond: number
+}
+
+/** Length of the sliding window the rates are computed over */
+const WINDOW_MS = 1000
+
+interface Sample {
+  time: number
+  bytes: number
+}
+
+/**
+ * Counts bytes sent and received over a sliding one-second window, so a debug overlay can show
+ * what the current traffic costs on the link
+ */
+export class BandwidthMeter {
+  private sent: Sample[] = []
+  private received: Sample[] = []
+  private readonly now: () => number
+
+  /**
+   * @param now Local clock in milliseconds; defaults to Date.now
+   */
+  constructor(now: () => number = () => Date.now()) {
+    this.now = now
+  }
+
+  /**
+   * Records one packet written to the link
+   * @param bytes Size of the packet as it went out
+   */
+  recordSent(bytes: number) {
+    this.sent.push({ time: this.now(), bytes })
+    this.prune(this.sent)
+  }
+
+  /**
+   * Records one packet read from the link
+   * @param bytes Size of the packet as it came in
+   */
+  recordReceived(bytes: number) {
+    this.received.push({ time: this.now(), bytes })
+    this.prune(this.received)
+  }
+
+  getStats(): BandwidthStats {
+    this.prune(this.sent)
+    this.prune(this.received)
+    return {
+      sentBytesPerSecond: this.sent.reduce((total, sample) => total + sample.bytes, 0),
+      receivedBytesPerSecond: this.received.reduce((total, sample) => total + sample.bytes, 0),
+      sentPacketsPerSecond: this.sent.length,
+      receivedPacketsPerSecond: this.received.length,
+    }
+  }
+
+  reset() {
+    this.sent = []
+    this.received = []
+  }
+
+  private prune(samples: Sample[]) {
+    const cutoff = this.now() - WINDOW_MS
+    let expired = 0
+    while (expired < samples.length && samples[expired].time <= cutoff) expired++
+    if (expired > 0) samples.splice(0, expired)
+  }
+}
@@ -1,103 +1,257 @@
 import { NetworkGameData } from "./game-engine"
+import { BaseTransport, MessageTooLargeError, TransportRole } from "./transport"
+import { decodeMessage, encodeMessage } from "./wire-codec"
+import { DEFAULT_MAX_FRAME_SIZE, FrameAssembler, splitIntoFrames } from "./wire-framing"
 
 interface BluetoothManagerOptions {
-  onConnectionStateChange: (state: "disconnected" | "connecting" | "connected") => void
-  onGameDataReceived: (data: NetworkGameData) => void
-  onError: (error: string) => void
+  bluetooth?: Bluetooth          // Bluetooth implementation to use; defaults to navigator.bluetooth
+  simulateConnection?: boolean   // Opt-in fake ping traffic for demos without a second device
+  maxFrameSize?: number          // Largest characteristic write in bytes; defaults to the minimum every BLE link supports
+  reconnectTimeoutMs?: number    // How long to keep trying to restore a dropped link before giving up
+  deviceId?: string              // Connect to this previously paired device instead of showing the chooser
+  namePrefix?: string            // Only offer devices whose advertised name starts with this; defaults to DEVICE_NAME_PREFIX
 }
 
-export class BluetoothManager {
+/**
+ * A device this origin has been granted access to before
+ */
+export interface RememberedDevice {
+  id: string
+  name: string
+}
+
+/** Advertised name prefix of Stellar Clash devices */
+export const DEVICE_NAME_PREFIX = "StellarClash"
+
+const DEFAULT_RECONNECT_TIMEOUT_MS = 30000
+const RECONNECT_BASE_DELAY_MS = 500   // Delay before the first reconnect attempt; doubles after each failure
+const RECONNECT_MAX_DELAY_MS = 8000
+
+/**
+ * GameTransport implementation that exchanges game data over a Web Bluetooth GATT characteristic
+ */
+export class BluetoothManager extends BaseTransport {
   private device: BluetoothDevice | null = null
   private server: BluetoothRemoteGATTServer | null = null
   private service: BluetoothRemoteGATTService | null = null
   private characteristic: BluetoothRemoteGATTCharacteristic | null = null
   private options: BluetoothManagerOptions
+  private simulationInterval: ReturnType<typeof setInterval> | null = null
+  private readonly assembler = new FrameAssembler()
+  private writeQueue: Promise<void> = Promise.resolve()  // GATT allows only one operation in flight at a time
+  private nextMessageId = 0
 
   private readonly SERVICE_UUID = "12345678-1234-1234-1234-123456789abc"
   private readonly CHARACTERISTIC_UUID = "87654321-4321-4321-4321-cba987654321"
 
-  constructor(options: BluetoothManagerOptions) {
-    this.options = options
+  // Stored handler references so they can be removed again in disconnect()
+  private readonly handleDisconnected = (): void => {
+    // The link dropped without disconnect() being called; try to get it back
+    this.releaseGameService()
+    this.reconnect()
   }
 
-  async startAsHost(): Promise<string> {
+  private readonly handleCharacteristicValueChanged = (event: Event): void => {
+    const characteristic = event.target as BluetoothRemoteGATTCharacteristic
+    if (!characteristic.value) return
+
     try {
-      this.options.onConnectionStateChange("connecting")
+      const value = characteristic.value
+      this.bandwidth.recordReceived(value.byteLength)
+      const message = this.assembler.push(new Uint8Array(value.buffer, value.byteOffset, value.byteLength))
+      if (!message) return
+      // Shape validation happens in GameEngine.handleNetworkUpdate, which treats all input as untrusted
+      this.emitMessage(decodeMessage(message))
+    } catch (error) {
+      console.warn("Received malformed game data:", error)
+    }
+  }
 
-      if (!navigator.bluetooth) {
-        throw new Error("Web Bluetooth is not supported in this browser")
-      }
+  constructor(options: BluetoothManagerOptions = {}) {
+    super()
+    this.options = options
+  }
 
-      // Request device
-      this.device = await navigator.bluetooth.requestDevice({
-        acceptAllDevices: true,
-        optionalServices: [this.SERVICE_UUID],
-      })
+  /**
+   * Lists Stellar Clash devices the user already granted this site access to, so they can be
+   * reconnected without the device chooser. Empty where the browser lacks getDevices().
+   * @param bluetooth Bluetooth implementation to use; defaults to navigator.bluetooth
+   * @returns The remembered devices
+   */
+  static async getRememberedDevices(bluetooth?: Bluetooth): Promise<RememberedDevice[]> {
+    const api = bluetooth ?? (typeof navigator !== "undefined" ? navigator.bluetooth : undefined)
+    if (!api?.getDevices) return []
 
-      // Set up disconnect handler
-      this.device.addEventListener("gattserverdisconnected", () => {
-        this.options.onConnectionStateChange("disconnected")
-      })
+    const devices = await api.getDevices()
+    return devices
+      .filter((device: BluetoothDevice) => device.name?.startsWith(DEVICE_NAME_PREFIX))
+      .map((device: BluetoothDevice) => ({ id: device.id, name: device.name ?? device.id }))
+  }
 
-      // Connect to GATT server
-      this.server = await this.device.gatt!.connect()
+  /**
+   * Returns the id and name of the connected device, e.g. to offer a rejoin later
+   */
+  getDeviceInfo(): RememberedDevice | null {
+    if (!this.device) return null
+    return { id: this.device.id, name: this.device.name ?? this.device.id }
+  }
 
-      // In a real implementation, you would set up a GATT server here
-      // For demo purposes, we'll simulate the connection
-      this.simulateConnection()
+  connect(role: TransportRole): Promise<string> {
+    return role === "host" ? this.startAsHost() : this.joinGame()
+  }
+
+  async startAsHost(): Promise<string> {
+    this.role = "host"
+    try {
+      this.emitStateChange("connecting")
+
+      await this.connectToGameService()
 
       const hostId = `host_${Date.now()}`
-      this.options.onConnectionStateChange("connected")
+      this.emitStateChange("connected")
 
       return hostId
     } catch (error) {
-      this.options.onConnectionStateChange("disconnected")
+      this.disconnect()
       throw error
     }
   }
 
   async joinGame(): Promise<string> {
+    this.role = "client"
     try {
-      this.options.onConnectionStateChange("connecting")
+      this.emitStateChange("connecting")
 
-      if (!navigator.bluetooth) {
-        throw new Error("Web Bluetooth is not supported in this browser")
-      }
+      await this.connectToGameService()
+
+      const clientId = `client_${Date.now()}`
+      this.emitStateChange("connected")
+
+      return clientId
+    } catch (error) {
+      this.disconnect()
+      throw error
+    }
+  }
 
-      // Request device
-      this.device = await navigator.bluetooth.requestDevice({
-        acceptAllDevices: true,
-        optionalServices: [this.SERVICE_UUID],
-      })
+  /**
+   * Picks a device (a remembered one, or through the browser's chooser) and opens the game service on it
+   * @private
+   */
+  private async connectToGameService(): Promise<void> {
+    const bluetooth = this.options.bluetooth ?? (typeof navigator !== "undefined" ? navigator.bluetooth : undefined)
+    if (!bluetooth) {
+      throw new Error("Web Bluetooth is not supported in this browser")
+    }
 
-      // Set up disconnect handler
-      this.device.addEventListener("gattserverdisconnected", () => {
-        this.options.onConnectionStateChange("disconnected")
-      })
+    this.device = this.options.deviceId
+      ? await this.findRememberedDevice(bluetooth, this.options.deviceId)
+      : await bluetooth.requestDevice({
+          // Only devices advertising the game service under our name, so headphones never show up
+          filters: [{ services: [this.SERVICE_UUID], namePrefix: this.options.namePrefix ?? DEVICE_NAME_PREFIX }],
+          optionalServices: [this.SERVICE_UUID],
+        })
 
-      // Connect to GATT server
-      this.server = await this.device.gatt!.connect()
+    // Set up disconnect handler
+    this.device.addEventListener("gattserverdisconnected", this.handleDisconnected)
 
-      // In a real implementation, you would connect to an existing GATT server
-      // For demo purposes, we'll simulate the connection
+    await this.openGameService(this.device)
+
+    if (this.options.simulateConnection) {
       this.simulateConnection()
+    }
+  }
 
-      const clientId = `client_${Date.now()}`
-      this.options.onConnectionStateChange("connected")
+  /**
+   * Looks up a device the user granted access to in an earlier session
+   * @private
+   */
+  private async findRememberedDevice(bluetooth: Bluetooth, deviceId: string): Promise<BluetoothDevice> {
+    if (!bluetooth.getDevices) {
+      throw new Error("This browser cannot reconnect to remembered devices; pick the device again")
+    }
 
-      return clientId
-    } catch (error) {
-      this.options.onConnectionStateChange("disconnected")
-      throw error
+    const device = (await bluetooth.getDevices()).find((candidate: BluetoothDevice) => candidate.id === deviceId)
+    if (!device) {
+      throw new Error("The remembered device is no longer available; pick it again")
+    }
+    return device
+  }
+
+  /**
+   * Connects to the device's GATT server and resolves the game service and characteristic.
+   * Subscribes to characteristic notifications so incoming game data reaches onGameDataReceived.
+   * @param device The device to open the game service on
+   * @private
+   */
+  private async openGameService(device: BluetoothDevice): Promise<void> {
+    if (!device.gatt) {
+      throw new Error("Selected device does not support GATT")
+    }
+
+    // Connect to GATT server and discover the game service
+    this.server = await device.gatt.connect()
+    this.service = await this.server.getPrimaryService(this.SERVICE_UUID)
+    this.characteristic = await this.service.getCharacteristic(this.CHARACTERISTIC_UUID)
+
+    // Subscribe to game data pushed by the other device
+    this.characteristic.addEventListener("characteristicvaluechanged", this.handleCharacteristicValueChanged)
+    await this.characteristic.startNotifications()
+  }
+
+  /**
+   * Drops references to the GATT objects of a connection that has gone away
+   * @private
+   */
+  private releaseGameService() {
+    this.characteristic?.removeEventListener("characteristicvaluechanged", this.handleCharacteristicValueChanged)
+    this.assembler.reset()
+    this.writeQueue = Promise.resolve()
+    this.server = null
+    this.service = null
+    this.characteristic = null
+  }
+
+  /**
+   * Reconnects to the same device with exponential backoff, reporting "reconnecting" meanwhile.
+   * Gives up after the reconnect timeout and disconnects; disconnect() also cancels the attempts.
+   * @private
+   */
+  private async reconnect() {
+    const device = this.device
+    if (!device) return
+
+    this.emitStateChange("reconnecting")
+    const deadline = Date.now() + (this.options.reconnectTimeoutMs ?? DEFAULT_RECONNECT_TIMEOUT_MS)
+
+    for (let attempt = 0; ; attempt++) {
+      const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** attempt, RECONNECT_MAX_DELAY_MS)
+      if (Date.now() + delay > deadline) break
+      await new Promise((resolve) => setTimeout(resolve, delay))
+      // disconnect() was called or another device was chosen while waiting
+      if (this.device !== device) return
+
+      try {
+        await this.openGameService(device)
+        if (this.device !== device) return
+        this.emitStateChange("connected")
+        return
+      } catch (error) {
+        console.warn(`Reconnect attempt ${attempt + 1} failed:`, error)
+        this.releaseGameService()
+      }
     }
+
+    this.emitError("Lost connection to the other device")
+    this.disconnect()
   }
 
   private simulateConnection() {
     // Simulate receiving game data periodically
-    setInterval(() => {
+    this.simulationInterval = setInterval(() => {
       if (this.device?.gatt?.connected) {
         // Simulate network data
-        this.options.onGameDataReceived({
+        this.emitMessage({
           type: "ping",
           timestamp: Date.now(),
         })
@@ -105,32 +259,70 @@ export class BluetoothManager {
     }, 1000)
   }
 
-  async sendGameData(data: NetworkGameData): Promise<void> {
+  async send(data: NetworkGameData): Promise<void> {
     if (!this.characteristic) {
       console.warn("No characteristic available for sending data")
       return
     }
 
+    const characteristic = this.characteristic
+    let frames: Uint8Array[]
+    try {
+      frames = splitIntoFrames(encodeMessage(data), this.nextMessageId, this.options.maxFrameSize ?? DEFAULT_MAX_FRAME_SIZE)
+      this.nextMessageId = (this.nextMessageId + 1) % 256
+    } catch (error) {
+      // Resending cannot help a message the frames cannot hold; the caller decides what to drop
+      if (error instanceof MessageTooLargeError) throw error
+      this.emitError(`Failed to encode ${data.type} message`)
+      console.error("Encode error:", error)
+      return
+    }
+
+    // Queue the writes so frames of concurrent sends never overlap on the characteristic
+    const write = this.writeQueue.then(async () => {
+      for (const frame of frames) {
+        await characteristic.writeValue(frame)
+        this.bandwidth.recordSent(frame.length)
+      }
+    })
+    this.writeQueue = write.catch(() => {
+      // Keep the queue usable after a failed write; the error is reported below
+    })
+
     try {
-      const message = JSON.stringify(data)
-      const encoder = new TextEncoder()
-      await this.characteristic.writeValue(encoder.encode(message))
+      await write
     } catch (error) {
-      this.options.onError("Failed to send game data")
+      this.emitError("Failed to send game data")
       console.error("Send error:", error)
     }
   }
 
   disconnect(): void {
+    if (this.simulationInterval) {
+      clearInterval(this.simulationInterval)
+      this.simulationInterval = null
+    }
+
+    if (this.characteristic) {
+      this.characteristic.removeEventListener("characteristicvaluechanged", this.handleCharacteristicValueChanged)
+      if (this.device?.gatt?.connected) {
+        this.characteristic.stopNotifications().catch(() => {
+          // The connection is being torn down anyway
+        })
+      }
+    }
+
+    this.device?.removeEventListener("gattserverdisconnected", this.handleDisconnected)
     if (this.device?.gatt?.connected) {
       this.device.gatt.disconnect()
     }
 
+    this.assembler.reset()
     this.device = null
     this.server = null
     this.service = null
     this.characteristic = null
-    this.options.onConnectionStateChange("disconnected")
+    this.emitStateChange("disconnected")
   }
 
   isConnected(): boolean {
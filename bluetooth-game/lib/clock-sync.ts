@@ -0,0 +1,105 @@
+import type { NetworkGameData } from "./game-engine"
+
+type PingMessage = Extract<NetworkGameData, { type: "ping" }>
+type PongMessage = Extract<NetworkGameData, { type: "pong" }>
+
+/**
+ * Link quality and clock estimates derived from ping/pong exchanges
+ */
+export interface ClockSyncStats {
+  rtt: number               // Round-trip time in milliseconds (mean of recent samples)
+  offset: number            // Estimated remote clock minus local clock in milliseconds
+  jitter: number            // Smoothed variation between consecutive round trips in milliseconds
+  samples: number           // Number of samples the estimates are based on (0 = no data yet)
+}
+
+/** Recent samples kept for filtering */
+const MAX_SAMPLES = 8
+
+/**
+ * NTP-style clock synchronization. Each ping carries the sender's transmit time; the pong echoes
+ * it together with the receiver's receive and transmit times, which gives the round-trip time
+ * and the offset between the two clocks. The offset of the lowest-RTT sample is used because
+ * that sample was least affected by queuing delay.
+ */
+export class ClockSync {
+  private samples: { rtt: number; offset: number }[] = []
+  private jitter = 0
+  private lastRtt: number | null = null
+  private readonly localNow: () => number
+
+  /**
+   * @param localNow Local clock in milliseconds; defaults to Date.now
+   */
+  constructor(localNow: () => number = () => Date.now()) {
+    this.localNow = localNow
+  }
+
+  createPing(): PingMessage {
+    return { type: "ping", timestamp: this.localNow() }
+  }
+
+  /**
+   * Builds the reply to a peer's ping
+   * @param ping The ping that was received
+   * @returns The pong to send back
+   */
+  createPong(ping: PingMessage): PongMessage {
+    const receivedAt = this.localNow()
+    return {
+      type: "pong",
+      originTimestamp: ping.timestamp,
+      receiveTimestamp: receivedAt,
+      transmitTimestamp: this.localNow(),
+    }
+  }
+
+  /**
+   * Records a sample from the reply to one of our pings
+   * @param pong The pong that was received
+   */
+  handlePong(pong: PongMessage) {
+    const arrivedAt = this.localNow()
+    const { originTimestamp, receiveTimestamp, transmitTimestamp } = pong
+    if (![originTimestamp, receiveTimestamp, transmitTimestamp].every(Number.isFinite)) return
+
+    const rtt = arrivedAt - originTimestamp - (transmitTimestamp - receiveTimestamp)
+    if (rtt < 0) return
+    const offset = (receiveTimestamp - originTimestamp + (transmitTimestamp - arrivedAt)) / 2
+
+    this.samples.push({ rtt, offset })
+    if (this.samples.length > MAX_SAMPLES) {
+      this.samples.shift()
+    }
+
+    // Interarrival jitter estimator from RFC 3550
+    if (this.lastRtt !== null) {
+      this.jitter += (Math.abs(rtt - this.lastRtt) - this.jitter) / 16
+    }
+    this.lastRtt = rtt
+  }
+
+  getStats(): ClockSyncStats {
+    if (this.samples.length === 0) {
+      return { rtt: 0, offset: 0, jitter: 0, samples: 0 }
+    }
+
+    const best = this.samples.reduce((a, b) => (b.rtt < a.rtt ? b : a))
+    const meanRtt = this.samples.reduce((sum, sample) => sum + sample.rtt, 0) / this.samples.length
+
+    return { rtt: meanRtt, offset: best.offset, jitter: this.jitter, samples: this.samples.length }
+  }
+
+  /**
+   * Current time on the remote peer's clock, as far as we can tell
+   */
+  remoteNow(): number {
+    return this.localNow() + this.getStats().offset
+  }
+
+  reset() {
+    this.samples = []
+    this.jitter = 0
+    this.lastRtt = null
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Fields of an entity that differ from the baseline, plus its key so the receiver can find it.
+ * A field that is present but undefined was cleared since the baseline.
+ */
+export type EntityDelta<T, K extends keyof T> = Partial<T> & Pick<T, K>
+
+/**
+ * Changes to a list of entities relative to a baseline list
+ */
+export interface EntitySetDelta<T, K extends keyof T> {
+  changed: EntityDelta<T, K>[] // Entities that are new or have at least one changed field
+  removed: string[]            // Keys of baseline entities that no longer exist
+}
+
+/**
+ * Compares field values the way they are serialized: primitives by value, vectors and other
+ * flat objects field by field
+ * @private
+ */
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false
+
+  const aFields = a as Record<string, unknown>
+  const bFields = b as Record<string, unknown>
+  const keys = Object.keys(aFields)
+  return keys.length === Object.keys(bFields).length && keys.every((key) => aFields[key] === bFields[key])
+}
+
+/**
+ * Computes what changed between two versions of an entity list
+ * @param base The list the receiver already has, or null to send every entity in full (a keyframe)
+ * @param current The list to reproduce on the receiver
+ * @param key Field that identifies an entity
+ * @param tracked Fields compared against the baseline; new entities are always sent in full
+ * @returns Changed entities with only their changed fields, and the keys of removed ones
+ */
+export function diffEntities<T extends object, K extends keyof T>(
+  base: readonly T[] | null,
+  current: readonly T[],
+  key: K,
+  tracked: readonly (keyof T)[],
+): EntitySetDelta<T, K> {
+  if (!base) {
+    return { changed: current.map((entity) => ({ ...entity })), removed: [] }
+  }
+
+  const baseByKey = new Map(base.map((entity) => [String(entity[key]), entity]))
+  const changed: EntityDelta<T, K>[] = []
+
+  current.forEach((entity) => {
+    const previous = baseByKey.get(String(entity[key]))
+    baseByKey.delete(String(entity[key]))
+    if (!previous) {
+      changed.push({ ...entity })
+      return
+    }
+
+    const fields = tracked.filter((field) => field !== key && !valuesEqual(entity[field], previous[field]))
+    if (fields.length === 0) return
+
+    const delta = { [key]: entity[key] } as EntityDelta<T, K>
+    fields.forEach((field) => {
+      // Copied even when undefined, which tells the receiver to clear the field
+      delta[field] = entity[field]
+    })
+    changed.push(delta)
+  })
+
+  return { changed, removed: Array.from(baseByKey.keys()) }
+}
+
+/**
+ * Rebuilds an entity list from a baseline and a delta produced by diffEntities
+ * @param base The baseline the delta was computed against, or null for a keyframe
+ * @param delta The received changes
+ * @param key Field that identifies an entity
+ * @returns The reconstructed list; baseline order is kept and new entities are appended
+ */
+export function applyEntityDelta<T extends object, K extends keyof T>(
+  base: readonly T[] | null,
+  delta: EntitySetDelta<T, K>,
+  key: K,
+): T[] {
+  const removed = new Set(delta.removed)
+  const result = new Map<string, T>()
+  base?.forEach((entity) => {
+    if (!removed.has(String(entity[key]))) result.set(String(entity[key]), entity)
+  })
+
+  delta.changed.forEach((changes) => {
+    const id = String(changes[key])
+    // On a keyframe, or for an entity the baseline lacks, the delta carries every field
+    result.set(id, { ...result.get(id), ...changes } as T)
+  })
+
+  return Array.from(result.values())
+}
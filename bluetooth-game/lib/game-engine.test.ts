@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { GameEngine, type NetworkGameData } from "./game-engine"
+
+const FRAME_MS = 1000 / 60
+
+let now = 0
+
+/** Canvas stand-in; update() never draws, so the context is never used */
+function createCanvas(): HTMLCanvasElement {
+  return { width: 800, height: 600, getContext: () => ({}) } as unknown as HTMLCanvasElement
+}
+
+/**
+ * A host and its clients wired back to back, all running on the test's clock; every message the
+ * first client sends is kept for inspection, and clients listed as silent never send anything
+ */
+function createMatch(clientIds = ["client_1"], silent: string[] = []) {
+  const host = new GameEngine(createCanvas(), { captureInput: false })
+  const clients = clientIds.map(() => new GameEngine(createCanvas(), { captureInput: false }))
+  const sent: NetworkGameData[] = []
+  const hostSent: NetworkGameData[] = []
+  host.setClock(() => now)
+  host.setNetworkUpdateCallback((data) => {
+    hostSent.push(data)
+    clients.forEach((client) => client.handleNetworkUpdate(data))
+  })
+
+  host.initializeAsHost("host_1")
+  clients.forEach((client, index) => {
+    const playerId = clientIds[index]
+    client.setClock(() => now)
+    client.setNetworkUpdateCallback((data) => {
+      if (index === 0) sent.push(data)
+      if (!silent.includes(playerId)) host.handleNetworkUpdate(data)
+    })
+    client.initializeAsClient(playerId)
+    host.addRemotePlayer(playerId, { callsign: playerId, ship: "ember" })
+  })
+  host.startGame()
+  return { host, client: clients[0], clients, sent, hostSent }
+}
+
+/** Advances the clock by the given time and runs one update on every engine */
+function step(engines: GameEngine[], ms = FRAME_MS) {
+  now += ms
+  engines.forEach((engine) => engine.update())
+}
+
+const lastInputSeq = (host: GameEngine, playerId: string) =>
+  host.serializeWorld().players.find((player) => player.playerId === playerId)?.lastInputSeq ?? 0
+
+beforeEach(() => {
+  now = 1000
+  vi.spyOn(performance, "now").mockImplementation(() => now)
+  vi.spyOn(Date, "now").mockImplementation(() => now)
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe("GameEngine input frames", () => {
+  it("keeps frames valid across a long hitch so the host keeps accepting input", () => {
+    const { host, client, sent } = createMatch()
+    for (let i = 0; i < 30; i++) step([host, client])
+
+    step([client], 400)
+    for (let i = 0; i < 30; i++) step([host, client])
+
+    const frames = sent.flatMap((data) => (data.type === "playerInput" ? data.frames : []))
+    expect(frames.length).toBeGreaterThan(0)
+    expect(Math.max(...frames.map((frame) => frame.dt))).toBeLessThanOrEqual(0.25)
+    // The host applied input recorded after the hitch, not just what came before it
+    expect(lastInputSeq(host, "client_1")).toBeGreaterThan(31)
+  })
+})
+
+describe("GameEngine entity ids", () => {
+  it("gives fragments of asteroids that break in the same frame distinct ids", () => {
+    const { host, client } = createMatch()
+    step([host, client])
+
+    // One shot through two overlapping asteroids breaks both at once
+    const world = host.serializeWorld()
+    const asteroid = { velocity: { x: 0, y: 0 }, rotation: 0, rotationSpeed: 0, size: 30, health: 25 }
+    world.asteroids = [
+      { ...asteroid, id: "asteroid_a", position: { x: 400, y: 60 } },
+      { ...asteroid, id: "asteroid_b", position: { x: 410, y: 60 } },
+    ]
+    world.projectiles = [
+      {
+        id: "projectile_shot",
+        ownerId: "host_1",
+        position: { x: 405, y: 60 },
+        velocity: { x: 0, y: 0 },
+        rotation: 0,
+        damage: 25,
+        lifetime: 1,
+      },
+    ]
+    host.deserializeWorld(world)
+    host.sendWorldSnapshot("resync")
+    for (let i = 0; i < 10; i++) step([host, client])
+
+    const hostIds = host.serializeWorld().asteroids.map((a) => a.id)
+    expect(hostIds).toHaveLength(4)
+    expect(new Set(hostIds).size).toBe(4)
+    expect(client.serializeWorld().asteroids.map((a) => a.id).sort()).toEqual([...hostIds].sort())
+  })
+})
+
+describe("GameEngine world deltas", () => {
+  it("sends keyframes until every pilot on the roster acknowledged a tick, even one without input", () => {
+    const baseTicks = (silent: string[]) => {
+      const { host, clients, hostSent } = createMatch(["client_1", "client_2"], silent)
+      for (let i = 0; i < 60; i++) step([host, ...clients])
+      return hostSent.flatMap((data) => (data.type === "worldDelta" ? [data.baseTick] : []))
+    }
+
+    // Once both pilots acknowledge, deltas are sent against a base
+    expect(baseTicks([]).some((baseTick) => baseTick > 0)).toBe(true)
+    // A pilot that never acknowledged anything still gets only keyframes
+    const withSilentPilot = baseTicks(["client_2"])
+    expect(withSilentPilot.length).toBeGreaterThan(0)
+    expect(withSilentPilot.every((baseTick) => baseTick === 0)).toBe(true)
+  })
+})
@@ -1,5 +1,8 @@
 import { z } from "zod"
 import { AudioManager } from "./audio-manager"
+import { PositionHistory, SnapshotBuffer } from "./snapshot-interpolation"
+import { applyEntityDelta, diffEntities } from "./delta-compression"
+import { computeStateChecksum, type ChecksumInput } from "./state-checksum"
 
 /**
  * Game configuration constants for balance and physics tuning.
@@ -21,20 +24,278 @@ export const GAME_CONFIG = {
   KILL_SCORE: 100,
   WIN_SCORE: 1000,
   GAME_DURATION: 300,
+  NETWORK_SEND_RATE: 20,
+  INTERPOLATION_DELAY_MS: 100,
+  MAX_EXTRAPOLATION_MS: 250,
 } as const
 
+/** Ship liveries players can pick in the lobby, with their hull colors */
+export const SHIP_COLORS = {
+  viper: { stroke: "#00ff00", fill: "#004400" },
+  ember: { stroke: "#ff6600", fill: "#440000" },
+  glacier: { stroke: "#33ccff", fill: "#003344" },
+  nova: { stroke: "#ff44ff", fill: "#440044" },
+} as const
+
+/** Where each player slot starts a match; the host is slot 0 and clients fill the rest in join order */
+const SPAWN_POINTS: readonly Vector2D[] = [
+  { x: 100, y: 300 },
+  { x: 700, y: 300 },
+  { x: 400, y: 100 },
+  { x: 400, y: 500 },
+]
+
+/** Most players in one match, the host included */
+export const MAX_PLAYERS = SPAWN_POINTS.length
+
+/** Bounds for negotiated match settings; values outside are rejected as malformed */
+export const MATCH_SETTINGS_LIMITS = {
+  durationSeconds: { min: 60, max: 1800 },
+  winScore: { min: 100, max: 100000 },
+} as const
+
+/** Longest single input frame the host accepts, and the longest step update() takes; a malformed frame
+ *  cannot move a ship further than this */
+const MAX_INPUT_FRAME_DURATION = 0.25
+
+/** Input time a client may bank beyond the host's own clock, for frames that arrive in bursts (seconds).
+ *  Together with the per-client budget it keeps clients from fast-forwarding their ship with extra frames. */
+const INPUT_TIME_ALLOWANCE = 0.25
+
+/** Most input frames the host buffers per client between updates */
+const MAX_QUEUED_INPUT_FRAMES = 32
+
+/** Most unacknowledged input frames a client keeps for replay (about two seconds at 60 fps) */
+const MAX_UNACKED_INPUT_FRAMES = 120
+
+/** The host sends a keyframe with every entity in full at least this often (two seconds of network ticks) */
+const KEYFRAME_INTERVAL_TICKS = 40
+
+/** Ticks of world state both peers keep as delta baselines; older acknowledgements get a keyframe */
+const DELTA_HISTORY_TICKS = 64
+
+/** Peers exchange state checksums every this many network ticks (once a second) */
+const CHECKSUM_INTERVAL_TICKS = 20
+
+/** Furthest the host rewinds ships to check a client's shot; on slower links shooters have to lead more */
+const MAX_LAG_COMPENSATION_MS = 250
+
+/** How fast the free spectator camera pans (pixels per second at zoom 1) */
+const CAMERA_PAN_SPEED = 400
+
+/** How fast the spectator camera zooms (zoom levels per second) and how far in it goes */
+const CAMERA_ZOOM_RATE = 1.5
+const CAMERA_MAX_ZOOM = 3
+
 // Zod schema for runtime validation of incoming (untrusted) network data
 const Vector2DSchema = z.object({ x: z.number(), y: z.number() })
-const NetworkGameDataSchema = z.discriminatedUnion("type", [
+const AsteroidStateSchema = z.object({
+  id: z.string(),
+  position: Vector2DSchema,
+  velocity: Vector2DSchema,
+  rotation: z.number(),
+  rotationSpeed: z.number(),
+  size: z.number().positive(),
+  health: z.number(),
+})
+const PowerUpStateSchema = z.object({
+  id: z.string(),
+  position: Vector2DSchema,
+  type: z.enum(["health", "shield", "energy", "weapon"]),
+  value: z.number(),
+  active: z.boolean(),
+  respawnTime: z.number().min(0),
+  respawnPosition: Vector2DSchema.optional(),
+})
+const PlayerInputFrameSchema = z.object({
+  seq: z.number().int().min(0),
+  dt: z.number().min(0).max(MAX_INPUT_FRAME_DURATION),
+  thrust: z.boolean(),
+  reverse: z.boolean(),
+  rotateLeft: z.boolean(),
+  rotateRight: z.boolean(),
+  aimAngle: z.number(),
+  fire: z.boolean(),
+  boost: z.boolean(),
+  viewTime: z.number().optional(), // Host clock time of the ships on the client's screen, on frames that fire
+})
+const PlayerStateSchema = z.object({
+  playerId: z.string(),
+  position: Vector2DSchema,
+  velocity: Vector2DSchema,
+  rotation: z.number(),
+  health: z.number().min(0),
+  shield: z.number().min(0),
+  energy: z.number().min(0),
+  score: z.number().min(0),
+  kills: z.number().int().min(0),
+  deaths: z.number().int().min(0),
+  weaponCooldown: z.number(),
+  boostCooldown: z.number(),
+  lastInputSeq: z.number().int().min(0).optional(), // Last input frame from this player the host has applied
+})
+const ProjectileStateSchema = z.object({
+  id: z.string(),
+  ownerId: z.string(),
+  position: Vector2DSchema,
+  velocity: Vector2DSchema,
+  rotation: z.number(),
+  damage: z.number().min(0),
+  lifetime: z.number(),
+})
+const MatchResultSchema = z.object({
+  winnerId: z.string().nullable(),
+  reason: z.enum(["timeLimit", "scoreLimit", "forfeit"]),
+})
+// Everything a peer needs to reproduce the host's world
+const WorldStateSchema = z.object({
+  gameTime: z.number().min(0),
+  inProgress: z.boolean(),                 // A match has been started and not reset since
+  paused: z.boolean(),
+  matchResult: MatchResultSchema.nullable(),
+  players: z.array(PlayerStateSchema),
+  asteroids: z.array(AsteroidStateSchema),
+  powerUps: z.array(PowerUpStateSchema),
+  projectiles: z.array(ProjectileStateSchema),
+})
+const MatchSettingsSchema = z.object({
+  durationSeconds: z
+    .number()
+    .int()
+    .min(MATCH_SETTINGS_LIMITS.durationSeconds.min)
+    .max(MATCH_SETTINGS_LIMITS.durationSeconds.max),
+  winScore: z.number().int().min(MATCH_SETTINGS_LIMITS.winScore.min).max(MATCH_SETTINGS_LIMITS.winScore.max),
+})
+const GameMessageSchema = z.discriminatedUnion("type", [
   z.object({ type: z.literal("ping"), timestamp: z.number() }),
   z.object({
-    type: z.literal("playerUpdate"),
+    type: z.literal("pong"),
+    originTimestamp: z.number(),
+    receiveTimestamp: z.number(),
+    transmitTimestamp: z.number(),
+  }),
+  // Host state of one network tick as changes against a tick the receiver acknowledged (see sendNetworkUpdate)
+  z.object({
+    type: z.literal("worldDelta"),
+    tick: z.number().int().min(1),
+    baseTick: z.number().int().min(0),     // Tick the changes apply to; 0 = keyframe carrying every entity in full
+    timestamp: z.number(),                 // Host clock time the state was captured (ms)
+    gameTime: z.number().min(0),
+    players: z.array(PlayerStateSchema.partial().required({ playerId: true })),
+    removedPlayers: z.array(z.string()),
+    asteroids: z.array(AsteroidStateSchema.partial().required({ id: true })),
+    removedAsteroids: z.array(z.string()),
+    powerUps: z.array(PowerUpStateSchema.partial().required({ id: true })),
+    removedPowerUps: z.array(z.string()),
+  }),
+  z.object({
+    type: z.literal("playerInput"),
     playerId: z.string(),
+    frames: z.array(PlayerInputFrameSchema).max(MAX_QUEUED_INPUT_FRAMES),
+    ackTick: z.number().int().min(0).optional(), // Newest worldDelta tick the client has reconstructed
+  }),
+  z.object({
+    type: z.literal("projectileFired"),
+    projectileId: z.string(),
+    ownerId: z.string(),
     position: Vector2DSchema,
+    velocity: Vector2DSchema,
     rotation: z.number(),
+  }),
+  z.object({
+    type: z.literal("playerHit"),
+    playerId: z.string(),
+    attackerId: z.string(),
+    damage: z.number().min(0),
     health: z.number().min(0),
     shield: z.number().min(0),
-    energy: z.number().min(0),
+  }),
+  z.object({
+    type: z.literal("playerDestroyed"),
+    playerId: z.string(),
+    killerId: z.string(),
+    respawnPosition: Vector2DSchema,
+  }),
+  z.object({
+    type: z.literal("powerUpCollected"),
+    powerUpId: z.string(),
+    playerId: z.string(),
+    respawnTime: z.number().min(0),
+    respawnPosition: Vector2DSchema,
+  }),
+  z.object({
+    type: z.literal("asteroidDestroyed"),
+    asteroidId: z.string(),
+    fragments: z.array(AsteroidStateSchema),
+  }),
+  z.object({
+    type: z.literal("matchStart"),
+    asteroids: z.array(AsteroidStateSchema),
+    powerUps: z.array(PowerUpStateSchema),
+  }),
+  z.object({ type: z.literal("matchPaused"), paused: z.boolean() }),
+  MatchResultSchema.extend({ type: z.literal("matchEnded") }),
+  // Full world from the host: on join, after a reconnect, and when a client asks for a resync
+  z.object({
+    type: z.literal("worldSnapshot"),
+    reason: z.enum(["join", "reconnect", "resync"]),
+    world: WorldStateSchema,
+  }),
+  // Session handshake (see SessionHandshake); keep these shapes stable so old builds can be told apart
+  z.object({
+    type: z.literal("hello"),
+    protocolVersion: z.number().int().min(0),
+    buildId: z.string().max(64),
+    playerId: z.string(),
+    callsign: z.string().min(1).max(16),
+    ship: z.enum(Object.keys(SHIP_COLORS) as [ShipType, ...ShipType[]]),
+    features: z.array(z.string().max(32)).max(32),
+  }),
+  MatchSettingsSchema.extend({ type: z.literal("matchSettings") }),         // Host's proposal
+  MatchSettingsSchema.extend({ type: z.literal("matchSettingsAccepted") }), // Client's agreement
+  z.object({ type: z.literal("snapshotRequest"), reason: z.string().max(64) }),
+  // Host's list of everyone in the match in handshake order (host first), sent whenever a player joins or leaves
+  z.object({
+    type: z.literal("roster"),
+    players: z
+      .array(
+        z.object({
+          playerId: z.string(),
+          slot: z.number().int().min(0).max(MAX_PLAYERS - 1),
+          callsign: z.string().min(1).max(16),
+          ship: z.enum(Object.keys(SHIP_COLORS) as [ShipType, ...ShipType[]]),
+        }),
+      )
+      .max(MAX_PLAYERS),
+  }),
+  // Hash of the sender's state at a network tick (see computeStateChecksum)
+  z.object({
+    type: z.literal("stateChecksum"),
+    tick: z.number().int().min(1),
+    hash: z.number().int().min(0).max(0xffffffff),
+  }),
+  // Spectator's newest reconstructed tick; players report theirs with their input
+  z.object({ type: z.literal("worldAck"), playerId: z.string(), tick: z.number().int().min(1) }),
+])
+// Reliability layer wrapper (see ReliableChannel); never reaches the engine
+const EnvelopeSchema = z.object({
+  type: z.literal("envelope"),
+  channel: z.enum(["reliable", "unreliable"]),
+  seq: z.number().int().min(0),           // Per-channel sequence number, starting at 1 (0 = ack only)
+  ack: z.number().int().min(0),           // Highest contiguous reliable sequence number received
+  session: z.number().int().min(1),       // Sender's channel session, new whenever its ReliableChannel starts over
+  base: z.number().int().min(1),          // Oldest reliable sequence number the sender still needs acknowledged
+  message: GameMessageSchema.optional(),
+})
+const NetworkGameDataSchema = z.discriminatedUnion("type", [
+  ...GameMessageSchema.options,
+  EnvelopeSchema,
+  // Authentication wrapper (see SignedTransport); never reaches the engine
+  z.object({
+    type: z.literal("signed"),
+    counter: z.number().int().min(1),       // Per-sender message counter, rejects replays
+    mac: z.array(z.number().int().min(0).max(255)),
+    message: z.discriminatedUnion("type", [...GameMessageSchema.options, EnvelopeSchema]),
   }),
 ])
 
@@ -43,6 +304,97 @@ const NetworkGameDataSchema = z.discriminatedUnion("type", [
  */
 export type NetworkGameData = z.infer<typeof NetworkGameDataSchema>
 
+/**
+ * Game-level messages, i.e. everything except transport wrappers
+ */
+export type GameMessage = z.infer<typeof GameMessageSchema>
+
+/**
+ * Validates untrusted data against the network message schema
+ * @param data Data received from a peer
+ * @returns The parsed message, or null if the data is not a valid message
+ */
+export function parseNetworkGameData(data: unknown): NetworkGameData | null {
+  const result = NetworkGameDataSchema.safeParse(data)
+  return result.success ? result.data : null
+}
+
+/**
+ * Controls held by a player during one frame; clients send these to the host instead of their ship state
+ */
+export type PlayerInput = Omit<PlayerInputFrame, "seq" | "dt">
+
+/**
+ * A player's input together with how long it was held, as exchanged over the network
+ */
+export type PlayerInputFrame = z.infer<typeof PlayerInputFrameSchema>
+
+/**
+ * Serializable asteroid state used when sharing the asteroid field between peers
+ */
+export type AsteroidState = z.infer<typeof AsteroidStateSchema>
+
+/**
+ * Serializable power-up state used when sharing power-up placement between peers
+ */
+export type PowerUpState = z.infer<typeof PowerUpStateSchema>
+
+/**
+ * Serializable ship state shared by worldDelta and worldSnapshot
+ */
+export type PlayerState = z.infer<typeof PlayerStateSchema>
+
+/**
+ * Serializable projectile state used in world snapshots
+ */
+export type ProjectileState = z.infer<typeof ProjectileStateSchema>
+
+/**
+ * Complete serializable world state, see GameEngine.serializeWorld
+ */
+export type WorldState = z.infer<typeof WorldStateSchema>
+
+/**
+ * Name of a ship livery in SHIP_COLORS
+ */
+export type ShipType = keyof typeof SHIP_COLORS
+
+/**
+ * Match rules both peers agree on during the session handshake
+ */
+export type MatchSettings = z.infer<typeof MatchSettingsSchema>
+
+/**
+ * How a player presents themselves to the other peers
+ */
+export interface PlayerProfile {
+  callsign: string
+  ship: ShipType
+}
+
+/**
+ * Match lifecycle states reported to the UI when they change
+ */
+export type MatchState = "playing" | "paused" | "finished"
+
+/**
+ * The part of the world carried by worldDelta messages, as of one network tick
+ */
+interface DeltaState {
+  players: PlayerState[]
+  asteroids: AsteroidState[]
+  powerUps: PowerUpState[]
+}
+
+/**
+ * Where a spectator is looking
+ */
+interface SpectatorCamera {
+  center: Vector2D          // World point in the middle of the view
+  zoom: number              // 1 shows the whole arena
+  targetId: string | null   // Ship the camera follows, or null for the free camera
+}
+
 /**
  * Represents a 2D vector with x and y coordinates
  */
@@ -87,6 +439,7 @@ export interface Projectile extends GameObject {
   ownerId: string           // ID of the player who fired this projectile
   damage: number            // Amount of damage this projectile deals on hit
   lifetime: number          // Time remaining before projectile disappears
+  rewindMs?: number         // Host: how far in the past ships are checked against it (lag compensation)
 }
 
 /**
@@ -96,6 +449,7 @@ export interface PowerUp extends GameObject {
   type: "health" | "shield" | "energy" | "weapon"  // Type determines effect when collected
   value: number             // Amount of benefit provided
   respawnTime: number       // Time until power-up reappears after collection
+  respawnPosition?: Vector2D // Where the power-up reappears (agreed over the network)
 }
 
 /**
@@ -118,6 +472,13 @@ export interface Particle {
   size: number              // Size of the particle
 }
 
+/**
+ * Optional settings for constructing a GameEngine
+ */
+export interface GameEngineOptions {
+  captureInput?: boolean    // Listen to keyboard/mouse input (disable for headless peers); defaults to true
+}
+
 /**
  * Main game engine class responsible for managing all game objects, physics, rendering,
  * player input, and networking.
@@ -125,6 +486,12 @@ export interface Particle {
 /** Maximum speed a player ship can travel (velocity units, applied as pixels per frame at 60 fps) */
 const MAX_PLAYER_SPEED = 8
 
+/** Fields a worldDelta sends when they changed. Asteroids drift the same way on every peer, so
+ *  their position and rotation only travel in keyframes, which correct any divergence. */
+const PLAYER_DELTA_FIELDS = Object.keys(PlayerStateSchema.shape) as (keyof PlayerState)[]
+const ASTEROID_DELTA_FIELDS: (keyof AsteroidState)[] = ["velocity", "rotationSpeed", "size", "health"]
+const POWER_UP_DELTA_FIELDS = Object.keys(PowerUpStateSchema.shape) as (keyof PowerUpState)[]
+
 export class GameEngine {
   private canvas: HTMLCanvasElement               // Drawing surface
   private ctx: CanvasRenderingContext2D           // Canvas drawing context
@@ -142,6 +509,37 @@ export class GameEngine {
   private networkUpdateCallback?: (data: NetworkGameData) => void // Callback for sending network updates
   private audioManager?: AudioManager             // Optional audio manager for sound effects
   private isShooting = false                      // Whether the player fired this frame
+  private firePressed = false                     // Mouse clicked since the last input sample
+  private remoteInputs: Map<string, PlayerInputFrame[]> = new Map() // Host: client input waiting to be applied
+  private lastProcessedInput: Map<string, number> = new Map() // Host: last input sequence number applied per client
+  private inputBudget: Map<string, number> = new Map() // Host: input time (s) each client may still apply
+  private inputSeq = 0                            // Client: sequence number of the last recorded input frame
+  private lastEntityId = 0                        // Host: number in the id of the last projectile or fragment spawned
+  private unackedInputs: PlayerInputFrame[] = []  // Client: predicted input frames the host has not applied yet
+  private reconciling = false                     // Replaying inputs; suppresses sounds, particles and messages
+  private remoteSnapshots: Map<string, SnapshotBuffer> = new Map() // Client: buffered host states per remote ship
+  private shipHistory: Map<string, PositionHistory> = new Map() // Host: recent ship positions for lag compensation
+  private interpolationDelay: number = GAME_CONFIG.INTERPOLATION_DELAY_MS // How far in the past remote ships are rendered (ms)
+  private clock: () => number = () => Date.now()  // Match clock shared with the host (ms)
+  private networkSendTimer = 0                    // Time accumulated since the last network update was sent
+  private tick = 0                                // Host: number of the last worldDelta sent
+  private sentDeltaStates: Map<number, DeltaState> = new Map() // Host: recently sent states, baselines for later deltas
+  private ackedTicks: Map<string, number> = new Map() // Host: newest tick each client has reconstructed
+  private receivedDeltaStates: Map<number, DeltaState> = new Map() // Client: states rebuilt from worldDelta, by tick
+  private latestTick = 0                          // Client: newest tick applied
+  private checksums: Map<number, { hash: number; input: ChecksumInput }> = new Map() // Own checksums of recent ticks
+  private paused = false                          // Whether the match is paused
+  private matchResult: z.infer<typeof MatchResultSchema> | null = null // Set once the match has ended
+  private matchStarted = false                    // A match has been started and not reset since
+  private waitingForOpponent = false              // Frozen while the link to the other peer is being re-established
+  private settings: MatchSettings = { durationSeconds: GAME_CONFIG.GAME_DURATION, winScore: GAME_CONFIG.WIN_SCORE } // Negotiated match rules
+  private profiles: Map<string, PlayerProfile> = new Map() // Callsign and livery per player, from the handshake
+  private slots: Map<string, number> = new Map()  // Spawn point and default livery per player, assigned by the host
+  private handshakeOrder: string[] = []           // Pilots in the order they completed the session handshake, host first
+  private spectator = false                       // Watching only: no ship of our own and no input sent
+  private spectators: Set<string> = new Set()     // Host: clients watching without a ship
+  private camera: SpectatorCamera = { center: { x: 400, y: 300 }, zoom: 1, targetId: null } // Spectator's view
+  private matchStateCallback?: (state: MatchState) => void // Callback for match state changes triggered by either peer
 
   // Stored event handler references so they can be properly removed in cleanup()
   private readonly handleKeyDown = (e: KeyboardEvent): void => {
@@ -164,7 +562,8 @@ export class GameEngine {
   private readonly handleMouseDown = (e: MouseEvent): void => {
     if (e.button === 0) {
       this.mouse.pressed = true
-      this.handleShooting()
+      // Remember the click so it fires on the next frame even if released before then
+      this.firePressed = true
     }
   }
 
@@ -177,14 +576,17 @@ export class GameEngine {
   /**
    * Creates a new GameEngine instance
    * @param canvas The HTML canvas element where the game will be rendered
+   * @param options Optional engine settings
    */
-  constructor(canvas: HTMLCanvasElement) {
+  constructor(canvas: HTMLCanvasElement, options: GameEngineOptions = {}) {
     this.canvas = canvas
     const ctx = canvas.getContext("2d")
     if (!ctx) throw new Error("Could not get canvas context")
     this.ctx = ctx
 
-    this.setupEventListeners()
+    if (options.captureInput ?? true) {
+      this.setupEventListeners()
+    }
     this.generateAsteroids()
     this.generatePowerUps()
   }
@@ -211,8 +613,10 @@ export class GameEngine {
    */
   initializeAsHost(playerId: string) {
     this.isHost = true
+    this.spectator = false
     this.localPlayerId = playerId
-    this.createPlayer(playerId, "Host", { x: 100, y: 300 })
+    this.handshakeOrder = [playerId]
+    this.createPlayer(playerId, "Host", this.getSpawnPoint(playerId))
   }
 
   /**
@@ -221,8 +625,24 @@ export class GameEngine {
    */
   initializeAsClient(playerId: string) {
     this.isHost = false
+    this.spectator = false
     this.localPlayerId = playerId
-    this.createPlayer(playerId, "Client", { x: 700, y: 300 })
+    this.handshakeOrder = []
+    // Placeholder until the host's state places the ship at the spawn point of its slot
+    this.createPlayer(playerId, "Client", { ...SPAWN_POINTS[1] })
+  }
+
+  /**
+   * Initializes the game in spectator mode: the engine follows the host's state like a client
+   * but never has a ship of its own and never sends input
+   * @param spectatorId The unique identifier of this spectator
+   */
+  initializeAsSpectator(spectatorId: string) {
+    this.isHost = false
+    this.spectator = true
+    this.localPlayerId = spectatorId
+    this.handshakeOrder = []
+    this.camera = { center: { x: this.canvas.width / 2, y: this.canvas.height / 2 }, zoom: 1, targetId: null }
   }
 
   /**
@@ -260,7 +680,7 @@ export class GameEngine {
         if (Math.random() > 0.95) {
           // Create a projectile for the debug player
           const projectile: Projectile = {
-            id: `projectile_${Date.now()}_${Math.random()}`,
+            id: this.createEntityId("projectile"),
             position: { ...debugPlayer.position },
             velocity: {
               x: Math.cos(debugPlayer.rotation) * 400,
@@ -378,25 +798,41 @@ export class GameEngine {
    */
   update() {
     const now = performance.now()
-    const deltaTime = (now - this.lastUpdate) / 1000
+    // A hitch (GC pause, background tab) is played as one frame of the longest length the host
+    // accepts, so the input frame recorded for it stays valid
+    const deltaTime = Math.min((now - this.lastUpdate) / 1000, MAX_INPUT_FRAME_DURATION)
     this.lastUpdate = now
+    // The camera stays movable while the match is frozen
+    if (this.spectator) this.updateCamera(deltaTime)
+    if (this.paused || this.waitingForOpponent) return
+
     this.gameTime += deltaTime
     this.isShooting = false
 
     this.updatePlayers(deltaTime)
+    if (this.isHost) this.recordShipHistory()
     this.updateProjectiles(deltaTime)
     this.updatePowerUps(deltaTime)
     this.updateAsteroids(deltaTime)
     this.updateParticles(deltaTime)
     this.checkCollisions()
 
-    if (this.isHost) {
+    // The host decides when the match is over and tells everyone else
+    if (this.isHost && !this.matchResult && this.isGameFinished()) {
+      this.endMatch()
+    }
+
+    // Both peers publish their own ship, throttled so slow links are not flooded
+    this.networkSendTimer += deltaTime
+    if (this.networkSendTimer >= 1 / GAME_CONFIG.NETWORK_SEND_RATE) {
+      this.networkSendTimer = 0
       this.sendNetworkUpdate()
     }
   }
 
   /**
-   * Updates all players' positions, physics, and regeneration
+   * Updates all players' positions, physics, and regeneration.
+   * Only the host moves ships; clients record their input and send it to the host instead.
    * @param deltaTime Time elapsed since the last update in seconds
    * @private
    */
@@ -404,110 +840,240 @@ export class GameEngine {
     const localPlayer = this.players.get(this.localPlayerId)
     if (!localPlayer) return
 
-    // Handle input for local player
-    this.handlePlayerInput(localPlayer, deltaTime)
+    if (!this.isHost) {
+      // Predict the local ship immediately; the host's copy catches up when the input arrives
+      const frame: PlayerInputFrame = { seq: ++this.inputSeq, dt: deltaTime, ...this.sampleLocalInput(localPlayer) }
+      // Tell the host which moment our shot was aimed at, so it can rewind the targets to it
+      if (frame.fire) frame.viewTime = this.clock() - this.interpolationDelay
+      this.isShooting = frame.fire
+      this.unackedInputs.push(frame)
+      if (this.unackedInputs.length > MAX_UNACKED_INPUT_FRAMES) {
+        this.unackedInputs.shift()
+      }
+      this.stepPlayer(localPlayer, frame, deltaTime)
+      return
+    }
 
-    // Update all players
     this.players.forEach((player) => {
-      // Clamp velocity to maximum speed
-      const speed = Math.sqrt(player.velocity.x ** 2 + player.velocity.y ** 2)
-      if (speed > MAX_PLAYER_SPEED) {
-        const scale = MAX_PLAYER_SPEED / speed
-        player.velocity.x *= scale
-        player.velocity.y *= scale
+      if (player.playerId === this.localPlayerId) {
+        this.stepPlayer(player, this.sampleLocalInput(player), deltaTime)
+        return
       }
 
-      // Apply physics
-      player.position.x += player.velocity.x * deltaTime * 60
-      player.position.y += player.velocity.y * deltaTime * 60
+      // A client may apply no more input time than has passed on the host, plus a little slack for
+      // bursts; frames beyond the budget are dropped and resent by the client once time catches up
+      let budget = Math.min(
+        (this.inputBudget.get(player.playerId) ?? 0) + deltaTime,
+        deltaTime + INPUT_TIME_ALLOWANCE,
+      )
+
+      // Remote ships advance exactly by the input frames their owner reported
+      const frames = this.remoteInputs.get(player.playerId)
+      if (frames) {
+        for (const frame of frames) {
+          // Skip duplicated or out-of-order frames so each input is applied exactly once
+          if (frame.seq <= (this.lastProcessedInput.get(player.playerId) ?? 0)) continue
+          if (frame.dt > budget) break
+          budget -= frame.dt
+          this.stepPlayer(player, frame, frame.dt)
+          this.lastProcessedInput.set(player.playerId, frame.seq)
+        }
+        this.remoteInputs.delete(player.playerId)
+      } else if (this._debugMode) {
+        this.integratePlayer(player, deltaTime)
+      }
+      this.inputBudget.set(player.playerId, budget)
+    })
+  }
 
-      // Apply drag
-      player.velocity.x *= GAME_CONFIG.PLAYER_DRAG
-      player.velocity.y *= GAME_CONFIG.PLAYER_DRAG
+  /**
+   * Moves the spectator camera from the keyboard: WASD or the arrow keys pan (leaving follow
+   * mode), Q and E zoom, the number keys follow the ship in that slot and 0 frees the camera
+   * @param deltaTime Time elapsed since the last update in seconds
+   * @private
+   */
+  private updateCamera(deltaTime: number) {
+    if (this.keys.has("Digit0")) this.camera.targetId = null
+    for (let slot = 0; slot < MAX_PLAYERS; slot++) {
+      if (!this.keys.has(`Digit${slot + 1}`)) continue
+      const playerId = Array.from(this.players.keys()).find((id) => this.getSlot(id) === slot)
+      if (playerId) this.camera.targetId = playerId
+    }
 
-      // Wrap around screen
-      if (player.position.x < 0) player.position.x = this.canvas.width
-      if (player.position.x > this.canvas.width) player.position.x = 0
-      if (player.position.y < 0) player.position.y = this.canvas.height
-      if (player.position.y > this.canvas.height) player.position.y = 0
-
-      // Regenerate shield and energy
-      if (player.shield < player.maxShield) {
-        player.shield = Math.min(player.maxShield, player.shield + GAME_CONFIG.SHIELD_REGEN_RATE * deltaTime)
-      }
-      if (player.energy < player.maxEnergy) {
-        player.energy = Math.min(player.maxEnergy, player.energy + GAME_CONFIG.ENERGY_REGEN_RATE * deltaTime)
-      }
+    const panX =
+      Number(this.keys.has("KeyD") || this.keys.has("ArrowRight")) - Number(this.keys.has("KeyA") || this.keys.has("ArrowLeft"))
+    const panY =
+      Number(this.keys.has("KeyS") || this.keys.has("ArrowDown")) - Number(this.keys.has("KeyW") || this.keys.has("ArrowUp"))
+    if (panX !== 0 || panY !== 0) {
+      this.camera.targetId = null
+      this.camera.center.x += (panX * CAMERA_PAN_SPEED * deltaTime) / this.camera.zoom
+      this.camera.center.y += (panY * CAMERA_PAN_SPEED * deltaTime) / this.camera.zoom
+    }
 
-      // Update cooldowns
-      if (player.weaponCooldown > 0) {
-        player.weaponCooldown -= deltaTime
-      }
-      if (player.boostCooldown > 0) {
-        player.boostCooldown -= deltaTime
-      }
-    })
+    const zoom = Number(this.keys.has("KeyE")) - Number(this.keys.has("KeyQ"))
+    this.camera.zoom = Math.max(1, Math.min(CAMERA_MAX_ZOOM, this.camera.zoom + zoom * CAMERA_ZOOM_RATE * deltaTime))
+  }
+
+  /**
+   * Applies one input frame to a player and advances its physics by the frame's duration
+   * @param player The player to advance
+   * @param input The input held during this frame
+   * @param deltaTime Duration of the frame in seconds
+   * @private
+   */
+  private stepPlayer(player: Player, input: PlayerInput, deltaTime: number) {
+    this.handlePlayerInput(player, input, deltaTime)
+    this.integratePlayer(player, deltaTime)
+  }
+
+  /**
+   * Moves a player by its velocity and applies drag, screen wrap, regeneration and cooldowns
+   * @param player The player to advance
+   * @param deltaTime Time elapsed in seconds
+   * @private
+   */
+  private integratePlayer(player: Player, deltaTime: number) {
+    // Clamp velocity to maximum speed
+    const speed = Math.sqrt(player.velocity.x ** 2 + player.velocity.y ** 2)
+    if (speed > MAX_PLAYER_SPEED) {
+      const scale = MAX_PLAYER_SPEED / speed
+      player.velocity.x *= scale
+      player.velocity.y *= scale
+    }
+
+    // Apply physics
+    player.position.x += player.velocity.x * deltaTime * 60
+    player.position.y += player.velocity.y * deltaTime * 60
+
+    // Apply drag
+    player.velocity.x *= GAME_CONFIG.PLAYER_DRAG
+    player.velocity.y *= GAME_CONFIG.PLAYER_DRAG
+
+    // Wrap around screen
+    if (player.position.x < 0) player.position.x = this.canvas.width
+    if (player.position.x > this.canvas.width) player.position.x = 0
+    if (player.position.y < 0) player.position.y = this.canvas.height
+    if (player.position.y > this.canvas.height) player.position.y = 0
+
+    // Regenerate shield and energy
+    if (player.shield < player.maxShield) {
+      player.shield = Math.min(player.maxShield, player.shield + GAME_CONFIG.SHIELD_REGEN_RATE * deltaTime)
+    }
+    if (player.energy < player.maxEnergy) {
+      player.energy = Math.min(player.maxEnergy, player.energy + GAME_CONFIG.ENERGY_REGEN_RATE * deltaTime)
+    }
+
+    // Update cooldowns
+    if (player.weaponCooldown > 0) {
+      player.weaponCooldown -= deltaTime
+    }
+    if (player.boostCooldown > 0) {
+      player.boostCooldown -= deltaTime
+    }
+  }
+
+  /**
+   * Reads the current keyboard and mouse state into an input frame for the local player
+   * @param player The local player (used to compute the aim angle)
+   * @returns The sampled input
+   * @private
+   */
+  private sampleLocalInput(player: Player): PlayerInput {
+    const input: PlayerInput = {
+      thrust: this.keys.has("KeyW"),
+      reverse: this.keys.has("KeyS"),
+      rotateLeft: this.keys.has("KeyA"),
+      rotateRight: this.keys.has("KeyD"),
+      aimAngle: Math.atan2(this.mouse.y - player.position.y, this.mouse.x - player.position.x),
+      fire: this.mouse.pressed || this.firePressed,
+      boost: this.keys.has("Space"),
+    }
+    this.firePressed = false
+    return input
   }
 
   /**
    * Processes player input for movement, rotation, boost, and targeting.
-   * Handles keyboard input for movement and special actions, as well as mouse input for aiming.
+   * Used for the local player and, on the host, for input frames reported by clients.
    * 
    * @param player The player object to update based on input
+   * @param input The input held during this frame
    * @param deltaTime Time elapsed since the last frame in seconds
    */
-  private handlePlayerInput(player: Player, deltaTime: number) {
+  private handlePlayerInput(player: Player, input: PlayerInput, deltaTime: number) {
     const rotationSpeed = 3
 
     // Movement
-    if (this.keys.has("KeyW")) {
+    if (input.thrust) {
       const thrust = 5
       player.velocity.x += Math.cos(player.rotation) * thrust * deltaTime
       player.velocity.y += Math.sin(player.rotation) * thrust * deltaTime
 
       // Add engine particles
-      this.addEngineParticles(player)
+      if (!this.reconciling) {
+        this.addEngineParticles(player)
+      }
     }
-    if (this.keys.has("KeyS")) {
+    if (input.reverse) {
       const thrust = 3
       player.velocity.x -= Math.cos(player.rotation) * thrust * deltaTime
       player.velocity.y -= Math.sin(player.rotation) * thrust * deltaTime
     }
-    if (this.keys.has("KeyA")) {
+    if (input.rotateLeft) {
       player.rotation -= rotationSpeed * deltaTime
     }
-    if (this.keys.has("KeyD")) {
+    if (input.rotateRight) {
       player.rotation += rotationSpeed * deltaTime
     }
 
     // Boost
-    if (this.keys.has("Space") && player.energy > GAME_CONFIG.BOOST_ENERGY_COST && player.boostCooldown <= 0) {
+    if (input.boost && player.energy > GAME_CONFIG.BOOST_ENERGY_COST && player.boostCooldown <= 0) {
       player.velocity.x += Math.cos(player.rotation) * GAME_CONFIG.BOOST_POWER * deltaTime
       player.velocity.y += Math.sin(player.rotation) * GAME_CONFIG.BOOST_POWER * deltaTime
       player.energy -= GAME_CONFIG.BOOST_ENERGY_COST
       player.boostCooldown = GAME_CONFIG.BOOST_COOLDOWN
 
-      this.audioManager?.playBoost()
-      this.addBoostParticles(player)
+      if (!this.reconciling) {
+        this.audioManager?.playBoost()
+        this.addBoostParticles(player)
+      }
     }
 
     // Shooting
-    if (this.mouse.pressed) {
-      this.handleShooting()
+    if (input.fire) {
+      this.fireWeapon(player, input.viewTime)
     }
 
-    // Update rotation to face mouse
-    const dx = this.mouse.x - player.position.x
-    const dy = this.mouse.y - player.position.y
-    player.rotation = Math.atan2(dy, dx)
+    // Update rotation to face the aim point
+    player.rotation = input.aimAngle
   }
 
-  private handleShooting() {
-    const player = this.players.get(this.localPlayerId)
-    if (!player || player.weaponCooldown > 0 || player.energy < GAME_CONFIG.WEAPON_ENERGY_COST) return
+  /**
+   * Fires the player's weapon if it is ready. Clients only predict the energy and cooldown cost;
+   * the projectile itself arrives from the host as a projectileFired message.
+   * @param player The player firing
+   * @param viewTime For a client's shot, the host clock time of the ships on that client's screen
+   * @private
+   */
+  private fireWeapon(player: Player, viewTime?: number) {
+    if (player.weaponCooldown > 0 || player.energy < GAME_CONFIG.WEAPON_ENERGY_COST) return
+
+    player.weaponCooldown = GAME_CONFIG.WEAPON_COOLDOWN
+    player.energy -= GAME_CONFIG.WEAPON_ENERGY_COST
+    if (this.reconciling) return
+
+    if (player.playerId === this.localPlayerId) {
+      this.isShooting = true
+    }
+
+    this.audioManager?.playLaserShot()
+    // Add muzzle flash particles
+    this.addMuzzleFlashParticles(player)
+
+    if (!this.isHost) return
 
     const projectile: Projectile = {
-      id: `projectile_${Date.now()}_${Math.random()}`,
+      id: this.createEntityId("projectile"),
       position: { ...player.position },
       velocity: {
         x: Math.cos(player.rotation) * GAME_CONFIG.PROJECTILE_SPEED,
@@ -521,15 +1087,20 @@ export class GameEngine {
       lifetime: GAME_CONFIG.PROJECTILE_LIFETIME,
       active: true,
     }
+    // Client clocks are untrusted: a view time in the future means no rewind, one too far back the cap
+    if (viewTime !== undefined && player.playerId !== this.localPlayerId) {
+      projectile.rewindMs = Math.min(MAX_LAG_COMPENSATION_MS, Math.max(0, this.clock() - viewTime))
+    }
 
     this.projectiles.push(projectile)
-    player.weaponCooldown = GAME_CONFIG.WEAPON_COOLDOWN
-    player.energy -= GAME_CONFIG.WEAPON_ENERGY_COST
-    this.isShooting = true
-
-    this.audioManager?.playLaserShot()
-    // Add muzzle flash particles
-    this.addMuzzleFlashParticles(player)
+    this.emit({
+      type: "projectileFired",
+      projectileId: projectile.id,
+      ownerId: projectile.ownerId,
+      position: { ...projectile.position },
+      velocity: { ...projectile.velocity },
+      rotation: projectile.rotation,
+    })
   }
 
   /**
@@ -565,10 +1136,11 @@ export class GameEngine {
         powerUp.respawnTime -= deltaTime
         if (powerUp.respawnTime <= 0) {
           powerUp.active = true
-          powerUp.position = {
+          powerUp.position = powerUp.respawnPosition ?? {
             x: Math.random() * this.canvas.width,
             y: Math.random() * this.canvas.height,
           }
+          powerUp.respawnPosition = undefined
         }
       }
 
@@ -609,6 +1181,37 @@ export class GameEngine {
     })
   }
 
+  /**
+   * Remembers where every ship is now, so shots from clients can be checked against the ships
+   * they saw (host only)
+   * @private
+   */
+  private recordShipHistory() {
+    const now = this.clock()
+    this.players.forEach((player, playerId) => {
+      let history = this.shipHistory.get(playerId)
+      if (!history) {
+        history = new PositionHistory({
+          maxAgeMs: MAX_LAG_COMPENSATION_MS,
+          worldWidth: this.canvas.width,
+          worldHeight: this.canvas.height,
+        })
+        this.shipHistory.set(playerId, history)
+      }
+      history.record(now, player.position)
+    })
+  }
+
+  /**
+   * Where a projectile's shooter saw a ship: its current position for the host's own shots, its
+   * position rewindMs ago for a client's
+   * @private
+   */
+  private getTargetPosition(player: Player, projectile: Projectile): Vector2D {
+    if (!this.isHost || !projectile.rewindMs) return player.position
+    return this.shipHistory.get(player.playerId)?.positionAt(this.clock() - projectile.rewindMs) ?? player.position
+  }
+
   /**
    * Checks for collisions between game objects and handles the results.
    * Detects and handles the following collision types:
@@ -616,6 +1219,10 @@ export class GameEngine {
    * - Player vs PowerUp: Applies power-up effects to players
    * - Player vs Asteroid: Damages player and bounces them away
    * - Projectile vs Asteroid: Damages asteroids and potentially destroys them
+   *
+   * Only the host resolves damage, pickups and asteroid destruction and broadcasts the outcome;
+   * clients just remove projectiles that visibly hit something. The host checks a client's shots
+   * against ships rewound to what that client saw when it fired (see getTargetPosition).
    */
   private checkCollisions() {
     // Player vs Projectile collisions
@@ -623,13 +1230,17 @@ export class GameEngine {
       this.projectiles.forEach((projectile, pIndex) => {
         if (projectile.ownerId === player.playerId) return
 
-        const distance = this.getDistance(player.position, projectile.position)
+        const distance = this.getDistance(this.getTargetPosition(player, projectile), projectile.position)
         if (distance < 20) {
-          this.handlePlayerHit(player, projectile)
+          if (this.isHost) {
+            this.handlePlayerHit(player, projectile)
+          }
           this.projectiles.splice(pIndex, 1)
         }
       })
 
+      if (!this.isHost) return
+
       // Player vs PowerUp collisions
       this.powerUps.forEach((powerUp) => {
         if (!powerUp.active) return
@@ -659,7 +1270,9 @@ export class GameEngine {
         if (distance < asteroid.size) {
           this.addExplosionParticles(projectile.position, "orange")
           this.projectiles.splice(pIndex, 1)
-          this.damageAsteroid(asteroid, aIndex)
+          if (this.isHost) {
+            this.damageAsteroid(asteroid, aIndex)
+          }
         }
       })
     })
@@ -700,11 +1313,12 @@ export class GameEngine {
     asteroid.health -= 25
     if (asteroid.health <= 0) {
       asteroid.active = false
+      const fragments: Asteroid[] = []
       // Split into two smaller asteroids if large enough
       if (asteroid.size >= 15) {
         for (let i = 0; i < 2; i++) {
           const fragment: Asteroid = {
-            id: `asteroid_frag_${Date.now()}_${i}`,
+            id: this.createEntityId("asteroid_frag"),
             position: { ...asteroid.position },
             velocity: {
               x: asteroid.velocity.x + (Math.random() - 0.5) * 4,
@@ -717,10 +1331,17 @@ export class GameEngine {
             size: asteroid.size * 0.55,
             active: true,
           }
-          this.asteroids.push(fragment)
+          fragments.push(fragment)
         }
       }
+      this.asteroids.push(...fragments)
       this.addExplosionParticles(asteroid.position, "orange")
+
+      this.emit({
+        type: "asteroidDestroyed",
+        asteroidId: asteroid.id,
+        fragments: fragments.map((fragment) => this.toAsteroidState(fragment)),
+      })
     }
   }
 
@@ -749,6 +1370,15 @@ export class GameEngine {
     this.addHitParticles(player.position)
     this.audioManager?.playHit()
 
+    this.emit({
+      type: "playerHit",
+      playerId: player.playerId,
+      attackerId: projectile.ownerId,
+      damage: projectile.damage,
+      health: Math.max(0, player.health),
+      shield: player.shield,
+    })
+
     // Check if player is destroyed
     if (player.health <= 0) {
       this.handlePlayerDestroyed(player, projectile.ownerId)
@@ -756,17 +1386,32 @@ export class GameEngine {
   }
 
   private handlePlayerDestroyed(player: Player, killerId: string) {
-    player.deaths++
-    player.health = player.maxHealth
-    player.shield = player.maxShield
-    player.energy = player.maxEnergy
-
     // Respawn at random location
-    player.position = {
+    const respawnPosition = {
       x: Math.random() * this.canvas.width,
       y: Math.random() * this.canvas.height,
     }
 
+    this.applyPlayerDestroyed(player, killerId, respawnPosition)
+    this.emit({ type: "playerDestroyed", playerId: player.playerId, killerId, respawnPosition: { ...respawnPosition } })
+  }
+
+  /**
+   * Resets a destroyed player at its respawn point and credits the killer.
+   * Shared by local kills and kills reported by the peer that simulates the victim.
+   * @param player The destroyed player
+   * @param killerId Player ID of the killer, or "asteroid"
+   * @param respawnPosition Where the player reappears
+   */
+  private applyPlayerDestroyed(player: Player, killerId: string, respawnPosition: Vector2D) {
+    player.deaths++
+    player.health = player.maxHealth
+    player.shield = player.maxShield
+    player.energy = player.maxEnergy
+    player.position = respawnPosition
+    // Rewinding must not reach across the jump to the respawn point
+    this.shipHistory.delete(player.playerId)
+
     // Award kill to killer (only for player kills, not asteroid collisions)
     if (killerId !== "asteroid") {
       const killer = this.players.get(killerId)
@@ -781,6 +1426,23 @@ export class GameEngine {
   }
 
   private handlePowerUpCollection(player: Player, powerUp: PowerUp) {
+    const respawnTime = 10 + Math.random() * 10
+    const respawnPosition = {
+      x: Math.random() * this.canvas.width,
+      y: Math.random() * this.canvas.height,
+    }
+
+    this.applyPowerUpCollection(player, powerUp, respawnTime, respawnPosition)
+    this.emit({
+      type: "powerUpCollected",
+      powerUpId: powerUp.id,
+      playerId: player.playerId,
+      respawnTime,
+      respawnPosition: { ...respawnPosition },
+    })
+  }
+
+  private applyPowerUpCollection(player: Player, powerUp: PowerUp, respawnTime: number, respawnPosition: Vector2D) {
     switch (powerUp.type) {
       case "health":
         player.health = Math.min(player.maxHealth, player.health + powerUp.value)
@@ -797,7 +1459,8 @@ export class GameEngine {
     }
 
     powerUp.active = false
-    powerUp.respawnTime = 10 + Math.random() * 10
+    powerUp.respawnTime = respawnTime
+    powerUp.respawnPosition = respawnPosition
 
     this.audioManager?.playPowerUp()
     this.addCollectionParticles(powerUp.position, this.getPowerUpColor(powerUp.type))
@@ -966,10 +1629,16 @@ export class GameEngine {
    * particles for visual effects, and player ships.
    */
   render() {
+    this.interpolateRemotePlayers()
+
     // Clear canvas with space background
     this.ctx.fillStyle = "#0a0a0f"
     this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height)
 
+    // Spectators look through a movable camera; players always see the whole arena
+    this.ctx.save()
+    if (this.spectator) this.applyCamera()
+
     // Draw stars
     this.drawStars()
 
@@ -989,11 +1658,33 @@ export class GameEngine {
 
     // Draw players
     this.players.forEach((player) => this.drawPlayer(player))
+    this.ctx.restore()
 
     // Draw UI
     this.drawUI()
   }
 
+  /**
+   * Centres the spectator camera on the followed ship (if any), keeps the view inside the arena
+   * and transforms the canvas so world coordinates land in the view
+   * @private
+   */
+  private applyCamera() {
+    const target = this.camera.targetId ? this.players.get(this.camera.targetId) : undefined
+    if (this.camera.targetId && !target) this.camera.targetId = null
+    if (target) this.camera.center = { ...target.position }
+
+    const { zoom, center } = this.camera
+    const halfWidth = this.canvas.width / (2 * zoom)
+    const halfHeight = this.canvas.height / (2 * zoom)
+    center.x = Math.max(halfWidth, Math.min(this.canvas.width - halfWidth, center.x))
+    center.y = Math.max(halfHeight, Math.min(this.canvas.height - halfHeight, center.y))
+
+    this.ctx.translate(this.canvas.width / 2, this.canvas.height / 2)
+    this.ctx.scale(zoom, zoom)
+    this.ctx.translate(-center.x, -center.y)
+  }
+
   /**
    * Draws the starfield background effect on the canvas.
    * Creates a parallax-like star background with varying opacity.
@@ -1021,9 +1712,10 @@ export class GameEngine {
     this.ctx.translate(player.position.x, player.position.y)
     this.ctx.rotate(player.rotation)
 
-    // Draw ship
-    this.ctx.strokeStyle = player.playerId === this.localPlayerId ? "#00ff00" : "#ff6600"
-    this.ctx.fillStyle = player.playerId === this.localPlayerId ? "#004400" : "#440000"
+    const profile = this.profiles.get(player.playerId)
+    const colors = SHIP_COLORS[this.getLivery(player.playerId)]
+    this.ctx.strokeStyle = colors.stroke
+    this.ctx.fillStyle = colors.fill
     this.ctx.lineWidth = 2
 
     this.ctx.beginPath()
@@ -1048,6 +1740,14 @@ export class GameEngine {
 
     // Draw health bar
     this.drawHealthBar(player)
+
+    if (profile) {
+      this.ctx.fillStyle = "#cccccc"
+      this.ctx.font = "10px monospace"
+      this.ctx.textAlign = "center"
+      this.ctx.fillText(profile.callsign, player.position.x, player.position.y - 44)
+      this.ctx.textAlign = "left"
+    }
   }
 
   /**
@@ -1217,6 +1917,11 @@ export class GameEngine {
   }
 
   private drawUI() {
+    if (this.spectator) {
+      this.drawSpectatorUI()
+      return
+    }
+
     const localPlayer = this.players.get(this.localPlayerId)
     if (!localPlayer) return
 
@@ -1245,20 +1950,52 @@ export class GameEngine {
   }
 
   /**
-   * Draws an in-canvas heads-up display showing the local player's health, shield, and energy
-   * as labelled bars at the bottom of the canvas.
-   * @param player The local player whose stats to display
+   * Draws a HUD for every ship, two per row from the bottom corners in slot order, and the
+   * camera mode above the minimap
+   * @private
+   */
+  private drawSpectatorUI() {
+    const ordered = Array.from(this.players.values()).sort((a, b) => this.getSlot(a.playerId) - this.getSlot(b.playerId))
+    ordered.forEach((player, index) => {
+      const left = index % 2 === 0 ? 10 : this.canvas.width - 216
+      const bottom = this.canvas.height - 10 - Math.floor(index / 2) * 80
+      this.drawHUD(player, left, bottom, this.getDisplayName(player.playerId))
+    })
+
+    this.drawMinimap()
+
+    const target = this.camera.targetId
+    this.ctx.fillStyle = "rgba(255,255,255,0.7)"
+    this.ctx.font = "12px monospace"
+    this.ctx.textAlign = "left"
+    this.ctx.fillText(target ? `SPECTATING · following ${this.getDisplayName(target)}` : "SPECTATING · free camera", 10, 20)
+  }
+
+  /**
+   * Draws an in-canvas heads-up display showing a player's health, shield, and energy
+   * as labelled bars, by default in the bottom left corner of the canvas.
+   * @param player The player whose stats to display
+   * @param left Left edge of the bars
+   * @param bottom Bottom edge of the lowest bar
+   * @param label Callsign shown above the bars, in the ship's livery
    */
-  private drawHUD(player: Player) {
+  private drawHUD(player: Player, left = 10, bottom = this.canvas.height - 10, label?: string) {
     const barWidth = 150
     const barHeight = 10
-    const margin = 10
-    const bottomY = this.canvas.height - margin - barHeight
+    const bottomY = bottom - barHeight
     const spacing = barHeight + 6
+    const rows = label ? 4 : 3
 
     // Semi-transparent background panel
     this.ctx.fillStyle = "rgba(0, 0, 0, 0.5)"
-    this.ctx.fillRect(margin - 4, bottomY - spacing * 2 - 4, barWidth + 60, spacing * 3 + 6)
+    this.ctx.fillRect(left - 4, bottomY - spacing * (rows - 1) - 4, barWidth + 60, spacing * rows + 6)
+
+    if (label) {
+      this.ctx.fillStyle = SHIP_COLORS[this.getLivery(player.playerId)].stroke
+      this.ctx.font = "bold 11px monospace"
+      this.ctx.textAlign = "left"
+      this.ctx.fillText(label, left, bottomY - spacing * 3 + barHeight - 1)
+    }
 
     const drawBar = (
       label: string,
@@ -1272,21 +2009,21 @@ export class GameEngine {
 
       // Track background
       this.ctx.fillStyle = "#222222"
-      this.ctx.fillRect(margin + 40, y, barWidth, barHeight)
+      this.ctx.fillRect(left + 40, y, barWidth, barHeight)
 
       // Fill
       this.ctx.fillStyle = fillColor
-      this.ctx.fillRect(margin + 40, y, barWidth * pct, barHeight)
+      this.ctx.fillRect(left + 40, y, barWidth * pct, barHeight)
 
       // Label
       this.ctx.fillStyle = "#ffffff"
       this.ctx.font = "10px monospace"
       this.ctx.textAlign = "left"
-      this.ctx.fillText(label, margin, y + barHeight - 1)
+      this.ctx.fillText(label, left, y + barHeight - 1)
 
       // Value text
       this.ctx.textAlign = "right"
-      this.ctx.fillText(`${Math.round(value)}`, margin + 40 + barWidth + 6, y + barHeight - 1)
+      this.ctx.fillText(`${Math.round(value)}`, left + 40 + barWidth + 6, y + barHeight - 1)
     }
 
     // Health bar – colour shifts from green to red as health drops
@@ -1338,10 +2075,23 @@ export class GameEngine {
     this.players.forEach((player) => {
       const x = minimapX + player.position.x * scaleX
       const y = minimapY + player.position.y * scaleY
-      this.ctx.fillStyle = player.playerId === this.localPlayerId ? "#00ff00" : "#ff6600"
+      this.ctx.fillStyle = SHIP_COLORS[this.getLivery(player.playerId)].stroke
       this.ctx.fillRect(x - 2, y - 2, 4, 4)
     })
 
+    // The part of the arena a zoomed-in spectator sees
+    if (this.spectator && this.camera.zoom > 1) {
+      const width = this.canvas.width / this.camera.zoom
+      const height = this.canvas.height / this.camera.zoom
+      this.ctx.strokeStyle = "rgba(255,255,255,0.6)"
+      this.ctx.strokeRect(
+        minimapX + (this.camera.center.x - width / 2) * scaleX,
+        minimapY + (this.camera.center.y - height / 2) * scaleY,
+        width * scaleX,
+        height * scaleY,
+      )
+    }
+
     // Minimap label
     this.ctx.fillStyle = "rgba(255,255,255,0.5)"
     this.ctx.font = "8px monospace"
@@ -1349,24 +2099,431 @@ export class GameEngine {
     this.ctx.fillText("MAP", minimapX + 2, minimapY + 9)
   }
 
+  /**
+   * Starts (or restarts) the match clock. The host also shares its asteroid field and
+   * power-up placement so every peer plays on the same map.
+   */
   startGame() {
-    this.gameTime = 0
-    this.lastUpdate = performance.now()
-  }
+    this.beginMatch()
 
-  resetGame() {
-    this.players.clear()
+    if (this.isHost) {
+      this.emit({
+        type: "matchStart",
+        asteroids: this.asteroids.filter((a) => a.active).map((a) => this.toAsteroidState(a)),
+        powerUps: this.powerUps.map((p) => this.toPowerUpState(p)),
+      })
+    }
+  }
+
+  private beginMatch() {
+    this.gameTime = 0
+    this.lastUpdate = performance.now()
+    this.paused = false
+    this.matchResult = null
+    this.matchStarted = true
+  }
+
+  /**
+   * Pauses or resumes the match on this engine and on the connected peer; a client's pause
+   * reaches the other clients through the host. Spectators cannot pause.
+   * @param paused Whether the match should be paused
+   */
+  setPaused(paused: boolean) {
+    if (this.spectator) return
+    this.applyPaused(paused)
+    this.emit({ type: "matchPaused", paused })
+  }
+
+  private applyPaused(paused: boolean) {
+    this.paused = paused
+    // Avoid a huge delta time on the first frame after resuming
+    this.lastUpdate = performance.now()
+  }
+
+  /**
+   * Applies the match rules agreed during the session handshake
+   * @param settings Match duration and winning score
+   */
+  setMatchSettings(settings: MatchSettings) {
+    this.settings = { ...settings }
+  }
+
+  getMatchSettings(): MatchSettings {
+    return { ...this.settings }
+  }
+
+  /**
+   * Sets the callsign and ship livery shown for a player
+   * @param playerId The player the profile belongs to
+   * @param profile Callsign and ship choice
+   */
+  setPlayerProfile(playerId: string, profile: PlayerProfile) {
+    this.profiles.set(playerId, { ...profile })
+  }
+
+  /**
+   * Adds a client that completed the session handshake, at the spawn point of the next free
+   * slot, and tells every client who is in the match (host only)
+   * @param playerId The client's player id
+   * @param profile The client's callsign and ship
+   * @returns False if every slot is taken and the client was not added
+   */
+  addRemotePlayer(playerId: string, profile: PlayerProfile): boolean {
+    if (!this.isHost) return false
+    if (!this.players.has(playerId)) {
+      if (this.players.size >= MAX_PLAYERS) return false
+      this.createPlayer(playerId, "Client", this.getSpawnPoint(playerId))
+    }
+    // A client rejoining after a host migration keeps its place
+    if (!this.handshakeOrder.includes(playerId)) this.handshakeOrder.push(playerId)
+    this.profiles.set(playerId, { ...profile })
+    this.sendRoster()
+    return true
+  }
+
+  /**
+   * Registers a client that completed the session handshake as a spectator. It gets no ship and
+   * no slot; the host only keeps track of which ticks it acknowledged (host only)
+   * @param spectatorId The spectator's id
+   */
+  addSpectator(spectatorId: string) {
+    if (!this.isHost) return
+    this.spectators.add(spectatorId)
+  }
+
+  /**
+   * Removes a client that left the match for good; its ship disappears for everyone (host only)
+   * @param playerId The client's player id, or a spectator's id
+   */
+  removePlayer(playerId: string) {
+    if (!this.isHost || playerId === this.localPlayerId) return
+    if (this.spectators.delete(playerId)) {
+      this.ackedTicks.delete(playerId)
+      return
+    }
+    this.players.delete(playerId)
+    this.profiles.delete(playerId)
+    this.slots.delete(playerId)
+    this.remoteInputs.delete(playerId)
+    this.lastProcessedInput.delete(playerId)
+    this.inputBudget.delete(playerId)
+    this.ackedTicks.delete(playerId)
+    this.shipHistory.delete(playerId)
+    this.handshakeOrder = this.handshakeOrder.filter((id) => id !== playerId)
+    this.sendRoster()
+  }
+
+  /**
+   * The pilot that takes over when the host leaves: the first one after the host in handshake
+   * order, as listed in the host's last roster, so every client arrives at the same answer.
+   * Spectators are never listed and never take over.
+   * @param formerHostId The host that left
+   * @returns The successor's player id, or null if no other pilot is left
+   */
+  getHostSuccessor(formerHostId: string): string | null {
+    return this.handshakeOrder.find((playerId) => playerId !== formerHostId) ?? null
+  }
+
+  /**
+   * Turns this client into the host after the previous one left. The match continues from the
+   * newest worldDelta received: every other ship takes its state from that tick, ours keeps its
+   * prediction, and the former host's ship leaves. The match stays frozen until
+   * setOpponentConnected(true), once the other peers had a chance to connect to us.
+   * @param formerHostId The host that left
+   */
+  promoteToHost(formerHostId: string) {
+    if (this.isHost || this.spectator) return
+
+    const latest = this.receivedDeltaStates.get(this.latestTick)
+    latest?.players.forEach((state) => {
+      const player = this.players.get(state.playerId)
+      if (!player || state.playerId === this.localPlayerId) return
+      this.applyPlayerState(player, state)
+      // Clients resend unacknowledged input; continue where the former host stopped applying it
+      if (state.lastInputSeq !== undefined) this.lastProcessedInput.set(state.playerId, state.lastInputSeq)
+    })
+    this.removeFormerHost(formerHostId)
+    // Number new entities after the former host's, so their ids never collide
+    ;[...this.projectiles, ...this.asteroids].forEach(({ id }) => {
+      const number = Number(id.slice(id.lastIndexOf("_") + 1))
+      if (Number.isInteger(number)) this.lastEntityId = Math.max(this.lastEntityId, number)
+    })
+
+    this.isHost = true
+    this.tick = this.latestTick // Keep tick numbers increasing for spectators' diagnostics
+    this.unackedInputs = []
+    this.inputBudget.clear()
+    this.remoteInputs.clear()
+    this.remoteSnapshots.clear()
+    this.resetDeltaHistory()
+    this.setOpponentConnected(false)
+  }
+
+  /**
+   * Prepares a client for a new host after the previous one left: the former host's ship
+   * leaves, delta baselines from the former host are forgotten, and the match stays frozen
+   * until the new host's world snapshot arrives
+   * @param formerHostId The host that left
+   */
+  followNewHost(formerHostId: string) {
+    if (this.isHost) return
+    this.removeFormerHost(formerHostId)
+    this.resetDeltaHistory()
+    this.waitingForOpponent = true
+  }
+
+  /**
+   * Returns a new id for a projectile or asteroid fragment. Deltas and fragment dedupe key entities
+   * by id, so ids must stay unique even when several spawn in the same frame.
+   * @param prefix Kind of entity, e.g. "projectile"
+   * @private
+   */
+  private createEntityId(prefix: string): string {
+    return `${prefix}_${++this.lastEntityId}`
+  }
+
+  private removeFormerHost(formerHostId: string) {
+    this.players.delete(formerHostId)
+    this.profiles.delete(formerHostId)
+    this.slots.delete(formerHostId)
+    this.remoteSnapshots.delete(formerHostId)
+    this.handshakeOrder = this.handshakeOrder.filter((id) => id !== formerHostId)
+    if (this.camera.targetId === formerHostId) this.camera.targetId = null
+  }
+
+  /**
+   * Forgets every tick exchanged with the former host; the new host starts from keyframes
+   * @private
+   */
+  private resetDeltaHistory() {
+    this.sentDeltaStates.clear()
+    this.ackedTicks.clear()
+    this.receivedDeltaStates.clear()
+    this.latestTick = 0
+    this.checksums.clear()
+    this.shipHistory.clear()
+  }
+
+  /**
+   * Announces every player's slot and profile to the clients
+   * @private
+   */
+  private sendRoster() {
+    const players: Extract<NetworkGameData, { type: "roster" }>["players"] = []
+    this.handshakeOrder.forEach((playerId) => {
+      const profile = this.profiles.get(playerId)
+      if (profile && this.players.has(playerId)) players.push({ playerId, slot: this.getSlot(playerId), ...profile })
+    })
+    this.emit({ type: "roster", players })
+  }
+
+  /**
+   * Slot of a player: the host assigns the lowest free one on first use, clients learn theirs
+   * from the roster and treat unknown players as coming last
+   * @private
+   */
+  private getSlot(playerId: string): number {
+    const known = this.slots.get(playerId)
+    if (known !== undefined) return known
+    if (!this.isHost) return MAX_PLAYERS
+
+    const taken = new Set(this.slots.values())
+    let slot = 0
+    while (taken.has(slot)) slot++
+    this.slots.set(playerId, slot)
+    return slot
+  }
+
+  private getSpawnPoint(playerId: string): Vector2D {
+    return { ...SPAWN_POINTS[this.getSlot(playerId) % SPAWN_POINTS.length] }
+  }
+
+  /**
+   * Livery a ship is drawn in: the one its pilot picked, unless a player in a lower slot
+   * already flies it, in which case the first livery nobody before it uses
+   * @private
+   */
+  private getLivery(playerId: string): ShipType {
+    const liveries = Object.keys(SHIP_COLORS) as ShipType[]
+    const ordered = Array.from(this.players.keys()).sort((a, b) => this.getSlot(a) - this.getSlot(b))
+    const used = new Set<ShipType>()
+
+    for (const id of ordered) {
+      const wanted = this.profiles.get(id)?.ship
+      const livery = wanted && !used.has(wanted) ? wanted : liveries.find((l) => !used.has(l)) ?? liveries[0]
+      if (id === playerId) return livery
+      used.add(livery)
+    }
+    return this.profiles.get(playerId)?.ship ?? liveries[0]
+  }
+
+  private getDisplayName(playerId: string): string {
+    return (
+      this.profiles.get(playerId)?.callsign ??
+      (playerId === this.localPlayerId ? "You" : `Pilot ${this.getSlot(playerId) + 1}`)
+    )
+  }
+
+  /**
+   * Points the spectator camera at a ship, or frees it for panning and zooming
+   * @param playerId The ship to follow, or null for the free camera
+   */
+  setCameraTarget(playerId: string | null) {
+    this.camera.targetId = playerId
+  }
+
+  getCameraTarget(): string | null {
+    return this.camera.targetId
+  }
+
+  isSpectator(): boolean {
+    return this.spectator
+  }
+
+  /**
+   * Freezes the match while the link to the other peer is down and resumes it once the link is
+   * back. On resume the host sends its full match state; clients stay frozen until it arrives.
+   * @param connected Whether the other peer is reachable again
+   */
+  setOpponentConnected(connected: boolean) {
+    if (!connected) {
+      this.waitingForOpponent = true
+      // Deltas may have been lost with the link; keyframes go out until the client acknowledges again
+      this.ackedTicks.clear()
+      return
+    }
+    if (!this.waitingForOpponent || !this.isHost) return
+
+    this.waitingForOpponent = false
+    this.lastUpdate = performance.now()
+    this.sendWorldSnapshot("reconnect")
+  }
+
+  /**
+   * Captures the complete world: match clock and status, ships with their scores, asteroids,
+   * power-ups and projectiles in flight. Particles are cosmetic and left out.
+   * @returns A serializable copy of the world
+   */
+  serializeWorld(): WorldState {
+    return {
+      gameTime: this.gameTime,
+      inProgress: this.matchStarted,
+      paused: this.paused,
+      matchResult: this.matchResult ? { ...this.matchResult } : null,
+      players: Array.from(this.players.values()).map((p) => this.toPlayerState(p)),
+      asteroids: this.asteroids.filter((a) => a.active).map((a) => this.toAsteroidState(a)),
+      powerUps: this.powerUps.map((p) => this.toPowerUpState(p)),
+      projectiles: this.projectiles.filter((p) => p.active).map((p) => this.toProjectileState(p)),
+    }
+  }
+
+  /**
+   * Replaces the world with a serialized one. The local ship keeps its not yet acknowledged
+   * input on top of the snapshot, and players missing from it are removed (except the local one).
+   * @param world State produced by serializeWorld, usually on the host
+   */
+  deserializeWorld(world: WorldState) {
+    const known = new Set(world.players.map((p) => p.playerId))
+    this.players.forEach((_, playerId) => {
+      if (!known.has(playerId) && playerId !== this.localPlayerId) this.players.delete(playerId)
+    })
+
+    world.players.forEach((state) => {
+      const player =
+        this.players.get(state.playerId) ?? this.createPlayer(state.playerId, "Remote", { ...state.position })
+      this.applyPlayerState(player, state)
+      if (state.playerId === this.localPlayerId && !this.isHost) {
+        this.reconcileLocalPlayer(player, state.lastInputSeq ?? 0)
+      } else if (this.isHost && state.lastInputSeq !== undefined) {
+        this.lastProcessedInput.set(state.playerId, state.lastInputSeq)
+      }
+    })
+
+    this.asteroids = world.asteroids.map((a) => this.fromAsteroidState(a))
+    this.powerUps = world.powerUps.map((p) => this.fromPowerUpState(p))
+    this.projectiles = world.projectiles.map((p) => this.fromProjectileState(p))
+    // Interpolation and rewind history from before the snapshot no longer applies
+    this.remoteSnapshots.clear()
+    this.shipHistory.clear()
+
+    this.gameTime = world.gameTime
+    this.matchStarted = world.inProgress
+    this.matchResult = world.matchResult ? { ...world.matchResult } : null
+    this.waitingForOpponent = false
+    this.applyPaused(world.paused)
+  }
+
+  /**
+   * Sends the complete world to the other peers (host only)
+   * @param reason Why the snapshot is sent, for the receiver's diagnostics
+   */
+  sendWorldSnapshot(reason: "join" | "reconnect" | "resync") {
+    if (!this.isHost) return
+    this.emit({ type: "worldSnapshot", reason, world: this.serializeWorld() })
+  }
+
+  /**
+   * Asks the host for a full world snapshot, e.g. after detecting that the peers diverged (client only)
+   * @param reason Short description of why, logged by the host
+   */
+  requestWorldSnapshot(reason: string) {
+    if (this.isHost) return
+    this.emit({ type: "snapshotRequest", reason })
+  }
+
+  isWaitingForOpponent(): boolean {
+    return this.waitingForOpponent
+  }
+
+  /**
+   * Ends the match in the local player's favour because the other peer did not come back in time
+   */
+  forfeitMatch() {
+    this.waitingForOpponent = false
+    this.matchResult = { winnerId: this.localPlayerId, reason: "forfeit" }
+    this.emit({ type: "matchEnded", ...this.matchResult })
+    this.matchStateCallback?.("finished")
+  }
+
+  /**
+   * Records the match result and announces it to the other peer (host only)
+   * @private
+   */
+  private endMatch() {
+    const players = Array.from(this.players.values())
+    const leader = players.reduce<Player | null>((best, p) => (!best || p.score > best.score ? p : best), null)
+
+    this.matchResult = {
+      winnerId: leader?.playerId ?? null,
+      reason: players.some((p) => p.score >= this.settings.winScore) ? "scoreLimit" : "timeLimit",
+    }
+    this.emit({ type: "matchEnded", ...this.matchResult })
+    this.matchStateCallback?.("finished")
+  }
+
+  resetGame() {
+    // Everyone stays in the match and starts over from the spawn point of their slot
+    Array.from(this.players.keys()).forEach((playerId) => {
+      this.createPlayer(playerId, "Player", this.getSpawnPoint(playerId))
+    })
     this.projectiles = []
     this.particles = []
     this.gameTime = 0
+    this.paused = false
+    this.matchResult = null
+    this.matchStarted = false
+    this.waitingForOpponent = false
+    this.remoteSnapshots.clear()
+    this.shipHistory.clear()
     this.generatePowerUps()
   }
 
   isGameFinished(): boolean {
     // Game ends after the configured duration or when a player reaches the win score
     return (
-      this.gameTime > GAME_CONFIG.GAME_DURATION ||
-      Array.from(this.players.values()).some((p) => p.score >= GAME_CONFIG.WIN_SCORE)
+      this.matchResult !== null ||
+      this.gameTime > this.settings.durationSeconds ||
+      Array.from(this.players.values()).some((p) => p.score >= this.settings.winScore)
     )
   }
 
@@ -1374,7 +2531,8 @@ export class GameEngine {
     return {
       players: Array.from(this.players.values()).map((player) => ({
         id: player.playerId,
-        name: player.playerId === this.localPlayerId ? "You" : "Opponent",
+        name: this.getDisplayName(player.playerId),
+        color: SHIP_COLORS[this.getLivery(player.playerId)].stroke,
         score: player.score,
         kills: player.kills,
         deaths: player.deaths,
@@ -1397,38 +2555,550 @@ export class GameEngine {
     }
 
     const parsed = result.data
-    if (parsed.type === "playerUpdate" && parsed.playerId !== this.localPlayerId) {
-      const player = this.players.get(parsed.playerId)
-      if (player) {
-        player.position = parsed.position
-        player.rotation = parsed.rotation
+    switch (parsed.type) {
+      case "worldDelta": {
+        // The host owns all ship state; clients cannot overwrite it
+        if (this.isHost || parsed.tick <= this.latestTick) break
+        const base = parsed.baseTick === 0 ? null : this.receivedDeltaStates.get(parsed.baseTick)
+        // Baseline already forgotten or never received; the host falls back to a keyframe
+        if (base === undefined) break
+
+        const state: DeltaState = {
+          players: applyEntityDelta(base?.players ?? null, { changed: parsed.players, removed: parsed.removedPlayers }, "playerId"),
+          asteroids: applyEntityDelta(base?.asteroids ?? null, { changed: parsed.asteroids, removed: parsed.removedAsteroids }, "id"),
+          powerUps: applyEntityDelta(base?.powerUps ?? null, { changed: parsed.powerUps, removed: parsed.removedPowerUps }, "id"),
+        }
+        this.receivedDeltaStates.set(parsed.tick, state)
+        this.receivedDeltaStates.forEach((_, tick) => {
+          if (tick <= parsed.tick - DELTA_HISTORY_TICKS) this.receivedDeltaStates.delete(tick)
+        })
+        this.latestTick = parsed.tick
+
+        this.gameTime = parsed.gameTime
+        this.applyWorldDelta(parsed, state)
+        if (parsed.tick % CHECKSUM_INTERVAL_TICKS === 0) this.publishChecksum(parsed.tick, state.players)
+        break
+      }
+      case "playerInput": {
+        if (!this.isHost || parsed.playerId === this.localPlayerId) break
+        // Only clients added after their handshake have a ship; late input from one that left is dropped
+        if (!this.players.has(parsed.playerId)) break
+        // Clients resend every frame until it is acknowledged, so most frames arrive more than once
+        if (parsed.ackTick !== undefined) {
+          this.ackedTicks.set(parsed.playerId, Math.max(parsed.ackTick, this.ackedTicks.get(parsed.playerId) ?? 0))
+        }
+        const queued = this.remoteInputs.get(parsed.playerId) ?? []
+        const newest = Math.max(this.lastProcessedInput.get(parsed.playerId) ?? 0, queued[queued.length - 1]?.seq ?? 0)
+        queued.push(...parsed.frames.filter((frame) => frame.seq > newest))
+        this.remoteInputs.set(parsed.playerId, queued.slice(-MAX_QUEUED_INPUT_FRAMES))
+        break
+      }
+      case "worldAck": {
+        if (!this.isHost || !this.spectators.has(parsed.playerId)) break
+        this.ackedTicks.set(parsed.playerId, Math.max(parsed.tick, this.ackedTicks.get(parsed.playerId) ?? 0))
+        break
+      }
+      case "projectileFired": {
+        if (this.isHost) break
+        this.projectiles.push({
+          id: parsed.projectileId,
+          position: parsed.position,
+          velocity: parsed.velocity,
+          rotation: parsed.rotation,
+          health: 1,
+          maxHealth: 1,
+          ownerId: parsed.ownerId,
+          damage: GAME_CONFIG.PROJECTILE_DAMAGE,
+          lifetime: GAME_CONFIG.PROJECTILE_LIFETIME,
+          active: true,
+        })
+        // Our own shots already played their effects when the input was predicted
+        if (parsed.ownerId === this.localPlayerId) break
+        this.audioManager?.playLaserShot()
+        const owner = this.players.get(parsed.ownerId)
+        if (owner) this.addMuzzleFlashParticles(owner)
+        break
+      }
+      case "playerHit": {
+        const player = this.players.get(parsed.playerId)
+        if (this.isHost || !player) break
         player.health = parsed.health
         player.shield = parsed.shield
-        player.energy = parsed.energy
+        this.addHitParticles(player.position)
+        this.audioManager?.playHit()
+        break
+      }
+      case "playerDestroyed": {
+        const player = this.players.get(parsed.playerId)
+        if (this.isHost || !player) break
+        // Don't interpolate across the respawn jump
+        this.remoteSnapshots.get(parsed.playerId)?.clear()
+        this.applyPlayerDestroyed(player, parsed.killerId, parsed.respawnPosition)
+        break
+      }
+      case "powerUpCollected": {
+        const player = this.players.get(parsed.playerId)
+        const powerUp = this.powerUps.find((p) => p.id === parsed.powerUpId)
+        if (this.isHost || !player || !powerUp) break
+        this.applyPowerUpCollection(player, powerUp, parsed.respawnTime, parsed.respawnPosition)
+        break
+      }
+      case "asteroidDestroyed": {
+        if (this.isHost) break
+        const asteroid = this.asteroids.find((a) => a.id === parsed.asteroidId)
+        if (asteroid) {
+          asteroid.active = false
+          this.addExplosionParticles(asteroid.position, "orange")
+        }
+        // A worldDelta may have introduced the fragments already
+        const fragments = parsed.fragments.filter((fragment) => !this.asteroids.some((a) => a.id === fragment.id))
+        this.asteroids.push(...fragments.map((fragment) => this.fromAsteroidState(fragment)))
+        break
+      }
+      case "matchStart": {
+        if (this.isHost) break
+        this.asteroids = parsed.asteroids.map((a) => this.fromAsteroidState(a))
+        this.powerUps = parsed.powerUps.map((p) => this.fromPowerUpState(p))
+        this.beginMatch()
+        this.matchStateCallback?.("playing")
+        break
+      }
+      case "matchPaused": {
+        this.applyPaused(parsed.paused)
+        this.matchStateCallback?.(parsed.paused ? "paused" : "playing")
+        // A client paused; every other client follows the host
+        if (this.isHost) this.emit(parsed)
+        break
+      }
+      case "matchEnded": {
+        if (this.isHost) break
+        this.matchResult = { winnerId: parsed.winnerId, reason: parsed.reason }
+        this.matchStateCallback?.("finished")
+        break
+      }
+      case "worldSnapshot": {
+        if (this.isHost) break
+        this.deserializeWorld(parsed.world)
+        // A client that joined from the lobby follows the host into a running match
+        if (parsed.world.matchResult) {
+          this.matchStateCallback?.("finished")
+        } else if (parsed.world.inProgress) {
+          this.matchStateCallback?.(parsed.world.paused ? "paused" : "playing")
+        }
+        break
+      }
+      case "stateChecksum": {
+        const own = this.checksums.get(parsed.tick)
+        if (!own || own.hash === parsed.hash) break
+        console.warn(`Desync detected at tick ${parsed.tick}: local checksum ${own.hash}, peer ${parsed.hash}`, {
+          tick: parsed.tick,
+          gameTime: this.gameTime,
+          checked: own.input,
+          world: this.serializeWorld(),
+        })
+        this.requestWorldSnapshot(`checksum mismatch at tick ${parsed.tick}`)
+        break
+      }
+      case "roster": {
+        if (this.isHost) break
+        const listed = new Set(parsed.players.map((p) => p.playerId))
+        this.slots.forEach((_, playerId) => {
+          if (!listed.has(playerId)) this.slots.delete(playerId)
+        })
+        parsed.players.forEach(({ playerId, slot, callsign, ship }) => {
+          this.slots.set(playerId, slot)
+          this.profiles.set(playerId, { callsign, ship })
+        })
+        this.handshakeOrder = parsed.players.map((p) => p.playerId)
+        break
+      }
+      case "snapshotRequest": {
+        if (!this.isHost) break
+        console.info(`Peer requested a world snapshot: ${parsed.reason}`)
+        this.sendWorldSnapshot("resync")
+        break
       }
     }
   }
 
+  /**
+   * Brings the simulation in line with a reconstructed worldDelta state. Ships take the full
+   * state; asteroids and power-ups only take the fields that were sent, so locally simulated
+   * asteroid drift is not reset to a stale baseline between keyframes.
+   * @param delta The received message
+   * @param state The host's state for the delta's tick
+   * @private
+   */
+  private applyWorldDelta(delta: Extract<NetworkGameData, { type: "worldDelta" }>, state: DeltaState) {
+    const keyframe = delta.baseTick === 0
+    const known = new Set(state.players.map((p) => p.playerId))
+    this.players.forEach((_, playerId) => {
+      if (!known.has(playerId) && playerId !== this.localPlayerId) {
+        this.players.delete(playerId)
+        this.remoteSnapshots.delete(playerId)
+      }
+    })
+    state.players.forEach((player) => this.applyPlayerUpdate(player, delta.timestamp))
+
+    if (keyframe) {
+      this.asteroids = state.asteroids.map((a) => this.fromAsteroidState(a))
+      this.powerUps = state.powerUps.map((p) => this.fromPowerUpState(p))
+      return
+    }
+
+    const removedAsteroids = new Set(delta.removedAsteroids)
+    this.asteroids.forEach((asteroid) => {
+      if (removedAsteroids.has(asteroid.id)) asteroid.active = false
+    })
+    delta.asteroids.forEach((changes) => {
+      const asteroid = this.asteroids.find((a) => a.id === changes.id)
+      const full = state.asteroids.find((a) => a.id === changes.id)
+      if (!asteroid) {
+        if (full) this.asteroids.push(this.fromAsteroidState(full))
+        return
+      }
+      if (changes.position) asteroid.position = { ...changes.position }
+      if (changes.velocity) asteroid.velocity = { ...changes.velocity }
+      if (changes.rotation !== undefined) asteroid.rotation = changes.rotation
+      if (changes.rotationSpeed !== undefined) asteroid.rotationSpeed = changes.rotationSpeed
+      if (changes.size !== undefined) asteroid.size = changes.size
+      if (changes.health !== undefined) asteroid.health = changes.health
+    })
+
+    const removedPowerUps = new Set(delta.removedPowerUps)
+    this.powerUps = this.powerUps.filter((p) => !removedPowerUps.has(p.id))
+    delta.powerUps.forEach((changes) => {
+      const full = state.powerUps.find((p) => p.id === changes.id)
+      if (!full) return
+      const index = this.powerUps.findIndex((p) => p.id === changes.id)
+      if (index < 0) {
+        this.powerUps.push(this.fromPowerUpState(full))
+      } else {
+        this.powerUps[index] = this.fromPowerUpState(full)
+      }
+    })
+  }
+
+  /**
+   * Applies the host's state of one ship. Remote ships are buffered for interpolation, the
+   * local ship is reconciled with the input the host has not applied yet.
+   * @param state The ship's state on the host
+   * @param timestamp Host clock time the state was captured (ms)
+   * @private
+   */
+  private applyPlayerUpdate(state: PlayerState, timestamp: number) {
+    // Players are created the first time we hear about them
+    const player = this.players.get(state.playerId) ?? this.createPlayer(state.playerId, "Remote", { ...state.position })
+    player.health = state.health
+    player.shield = state.shield
+    player.energy = state.energy
+    player.score = state.score
+    player.kills = state.kills
+    player.deaths = state.deaths
+    player.weaponCooldown = state.weaponCooldown
+    player.boostCooldown = state.boostCooldown
+
+    if (state.playerId !== this.localPlayerId) {
+      // Remote ships are rendered from a buffer instead of jumping to each update
+      this.getSnapshotBuffer(state.playerId).push({
+        time: timestamp,
+        position: state.position,
+        velocity: state.velocity,
+        rotation: state.rotation,
+      })
+      player.velocity = { ...state.velocity }
+      return
+    }
+
+    player.position = { ...state.position }
+    player.velocity = { ...state.velocity }
+    player.rotation = state.rotation
+    if (state.lastInputSeq !== undefined) {
+      this.reconcileLocalPlayer(player, state.lastInputSeq)
+    }
+  }
+
+  private getSnapshotBuffer(playerId: string): SnapshotBuffer {
+    let buffer = this.remoteSnapshots.get(playerId)
+    if (!buffer) {
+      buffer = new SnapshotBuffer({
+        maxExtrapolationMs: GAME_CONFIG.MAX_EXTRAPOLATION_MS,
+        maxSpeed: MAX_PLAYER_SPEED,
+        worldWidth: this.canvas.width,
+        worldHeight: this.canvas.height,
+      })
+      this.remoteSnapshots.set(playerId, buffer)
+    }
+    return buffer
+  }
+
+  /**
+   * Moves remote ships to their buffered state at (now - interpolation delay)
+   * @private
+   */
+  private interpolateRemotePlayers() {
+    const renderTime = this.clock() - this.interpolationDelay
+    this.remoteSnapshots.forEach((buffer, playerId) => {
+      const player = this.players.get(playerId)
+      const state = buffer.sample(renderTime)
+      if (!player || !state) return
+      player.position = state.position
+      player.rotation = state.rotation
+    })
+  }
+
+  /**
+   * Sets how far in the past remote ships are rendered. Larger values hide more jitter and
+   * packet loss at the cost of showing opponents further behind.
+   * @param delayMs Interpolation delay in milliseconds
+   */
+  setInterpolationDelay(delayMs: number) {
+    this.interpolationDelay = Math.max(0, delayMs)
+  }
+
+  /**
+   * Sets the clock used to timestamp and interpolate network state. Clients should pass a clock
+   * synchronized to the host's (see GameTransport.now) so buffered snapshots line up.
+   * @param clock Returns the current match time in milliseconds
+   */
+  setClock(clock: () => number) {
+    this.clock = clock
+  }
+
+  /**
+   * Re-applies the local inputs the host has not processed yet on top of its authoritative state,
+   * so the predicted ship converges on the host's truth without losing recent input.
+   * @param player The local player, already set to the host's state
+   * @param lastInputSeq The last input frame the host applied
+   * @private
+   */
+  private reconcileLocalPlayer(player: Player, lastInputSeq: number) {
+    this.unackedInputs = this.unackedInputs.filter((frame) => frame.seq > lastInputSeq)
+
+    this.reconciling = true
+    this.unackedInputs.forEach((frame) => this.stepPlayer(player, frame, frame.dt))
+    this.reconciling = false
+  }
+
+  /**
+   * Publishes this peer's share of the simulation: the host broadcasts the authoritative
+   * world as a worldDelta, clients send the input frames the host has not acknowledged yet
+   * together with the newest tick they reconstructed. Spectators only send that tick.
+   *
+   * Each worldDelta only carries the fields that differ from a tick every client has
+   * acknowledged, so it still applies when deltas in between were lost. Without such a
+   * baseline, and every KEYFRAME_INTERVAL_TICKS, the host sends a keyframe instead.
+   * @private
+   */
   private sendNetworkUpdate() {
-    const localPlayer = this.players.get(this.localPlayerId)
-    if (!localPlayer || !this.networkUpdateCallback) return
+    if (this.spectator) {
+      // Spectators have no input; they only tell the host which baseline they can decode
+      if (this.latestTick > 0) this.emit({ type: "worldAck", playerId: this.localPlayerId, tick: this.latestTick })
+      return
+    }
+    if (!this.isHost) {
+      if (this.unackedInputs.length === 0) return
+      // Input travels unreliably; repeating unacknowledged frames covers lost packets
+      this.emit({
+        type: "playerInput",
+        playerId: this.localPlayerId,
+        frames: this.unackedInputs.slice(-MAX_QUEUED_INPUT_FRAMES),
+        ackTick: this.latestTick > 0 ? this.latestTick : undefined,
+      })
+      return
+    }
+
+    const tick = ++this.tick
+    const baseTick = this.chooseBaseTick(tick)
+    const base = this.sentDeltaStates.get(baseTick) ?? null
+    const state: DeltaState = {
+      players: Array.from(this.players.values()).map((p) => this.toPlayerState(p)),
+      asteroids: this.asteroids.filter((a) => a.active).map((a) => this.toAsteroidState(a)),
+      powerUps: this.powerUps.map((p) => this.toPowerUpState(p)),
+    }
+    this.sentDeltaStates.set(tick, state)
+    this.sentDeltaStates.forEach((_, sent) => {
+      if (sent <= tick - DELTA_HISTORY_TICKS) this.sentDeltaStates.delete(sent)
+    })
+
+    const players = diffEntities(base?.players ?? null, state.players, "playerId", PLAYER_DELTA_FIELDS)
+    const asteroids = diffEntities(base?.asteroids ?? null, state.asteroids, "id", ASTEROID_DELTA_FIELDS)
+    const powerUps = diffEntities(base?.powerUps ?? null, state.powerUps, "id", POWER_UP_DELTA_FIELDS)
+    this.emit({
+      type: "worldDelta",
+      tick,
+      baseTick: base ? baseTick : 0,
+      timestamp: this.clock(),
+      gameTime: this.gameTime,
+      players: players.changed,
+      removedPlayers: players.removed,
+      asteroids: asteroids.changed,
+      removedAsteroids: asteroids.removed,
+      powerUps: powerUps.changed,
+      removedPowerUps: powerUps.removed,
+    })
+    // After the delta, so clients have applied the tick by the time its checksum arrives
+    if (tick % CHECKSUM_INTERVAL_TICKS === 0) this.publishChecksum(tick, state.players)
+  }
+
+  /**
+   * Hashes the state of a network tick, remembers it and sends it to the other peers, who
+   * compare it with their own hash of the same tick. Ships are hashed as the host captured
+   * them because clients predict their own ship and render others in the past.
+   * @param tick The network tick the state belongs to
+   * @param players Ship states of that tick
+   * @private
+   */
+  private publishChecksum(tick: number, players: PlayerState[]) {
+    const input: ChecksumInput = {
+      players: players.map(({ playerId, position, health, score }) => ({ playerId, position, health, score })),
+      asteroidCount: this.asteroids.filter((a) => a.active).length,
+    }
+    const hash = computeStateChecksum(input)
+    this.checksums.set(tick, { hash, input })
+    this.checksums.forEach((_, checked) => {
+      if (checked <= tick - DELTA_HISTORY_TICKS) this.checksums.delete(checked)
+    })
+    this.emit({ type: "stateChecksum", tick, hash })
+  }
+
+  /**
+   * Picks the newest tick every client has acknowledged, or 0 when a keyframe is due
+   * @param tick The tick about to be sent
+   * @private
+   */
+  private chooseBaseTick(tick: number): number {
+    if (tick % KEYFRAME_INTERVAL_TICKS === 0) return 0
+
+    // Clients are the pilots on the roster, whether or not they sent input yet, plus the spectators
+    let baseTick = Infinity
+    this.handshakeOrder.forEach((playerId) => {
+      if (playerId === this.localPlayerId) return
+      baseTick = Math.min(baseTick, this.ackedTicks.get(playerId) ?? 0)
+    })
+    this.spectators.forEach((spectatorId) => {
+      baseTick = Math.min(baseTick, this.ackedTicks.get(spectatorId) ?? 0)
+    })
+    return Number.isFinite(baseTick) && this.sentDeltaStates.has(baseTick) ? baseTick : 0
+  }
+
+  /**
+   * Sends a message to the connected peer if a network callback is registered
+   * @param data The message to send
+   * @private
+   */
+  private emit(data: NetworkGameData) {
+    this.networkUpdateCallback?.(data)
+  }
+
+  private toPlayerState(player: Player): PlayerState {
+    return {
+      playerId: player.playerId,
+      position: { ...player.position },
+      velocity: { ...player.velocity },
+      rotation: player.rotation,
+      health: Math.max(0, player.health),
+      shield: player.shield,
+      energy: Math.max(0, player.energy),
+      score: player.score,
+      kills: player.kills,
+      deaths: player.deaths,
+      weaponCooldown: player.weaponCooldown,
+      boostCooldown: player.boostCooldown,
+      lastInputSeq: this.lastProcessedInput.get(player.playerId),
+    }
+  }
+
+  private applyPlayerState(player: Player, state: PlayerState) {
+    player.position = { ...state.position }
+    player.velocity = { ...state.velocity }
+    player.rotation = state.rotation
+    player.health = state.health
+    player.shield = state.shield
+    player.energy = state.energy
+    player.score = state.score
+    player.kills = state.kills
+    player.deaths = state.deaths
+    player.weaponCooldown = state.weaponCooldown
+    player.boostCooldown = state.boostCooldown
+  }
+
+  private toAsteroidState(asteroid: Asteroid): AsteroidState {
+    return {
+      id: asteroid.id,
+      position: { ...asteroid.position },
+      velocity: { ...asteroid.velocity },
+      rotation: asteroid.rotation,
+      rotationSpeed: asteroid.rotationSpeed,
+      size: asteroid.size,
+      health: asteroid.health,
+    }
+  }
+
+  private fromAsteroidState(state: AsteroidState): Asteroid {
+    return {
+      ...state,
+      maxHealth: state.health,
+      active: true,
+    }
+  }
+
+  private toPowerUpState(powerUp: PowerUp): PowerUpState {
+    return {
+      id: powerUp.id,
+      position: { ...powerUp.position },
+      type: powerUp.type,
+      value: powerUp.value,
+      active: powerUp.active,
+      respawnTime: powerUp.respawnTime,
+      respawnPosition: powerUp.respawnPosition ? { ...powerUp.respawnPosition } : undefined,
+    }
+  }
+
+  private toProjectileState(projectile: Projectile): ProjectileState {
+    return {
+      id: projectile.id,
+      ownerId: projectile.ownerId,
+      position: { ...projectile.position },
+      velocity: { ...projectile.velocity },
+      rotation: projectile.rotation,
+      damage: projectile.damage,
+      lifetime: projectile.lifetime,
+    }
+  }
 
-    const update: NetworkGameData = {
-      type: "playerUpdate",
-      playerId: this.localPlayerId,
-      position: localPlayer.position,
-      rotation: localPlayer.rotation,
-      health: localPlayer.health,
-      shield: localPlayer.shield,
-      energy: localPlayer.energy,
+  private fromProjectileState(state: ProjectileState): Projectile {
+    return {
+      ...state,
+      health: 1,
+      maxHealth: 1,
+      active: true,
+    }
+  }
+
+  private fromPowerUpState(state: PowerUpState): PowerUp {
+    return {
+      ...state,
+      velocity: { x: 0, y: 0 },
+      rotation: 0,
+      health: 1,
+      maxHealth: 1,
     }
-    this.networkUpdateCallback(update)
   }
 
   setNetworkUpdateCallback(callback: (data: NetworkGameData) => void) {
     this.networkUpdateCallback = callback
   }
 
+  /**
+   * Registers a callback for match state changes that originate from the network
+   * (the host starting the match, either peer pausing, the host ending it)
+   * @param callback Called with the new match state
+   */
+  setMatchStateCallback(callback: (state: MatchState) => void) {
+    this.matchStateCallback = callback
+  }
+
   cleanup() {
     // Remove keyboard listeners using the same function references that were registered
     window.removeEventListener("keydown", this.handleKeyDown)
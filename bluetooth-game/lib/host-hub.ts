@@ -0,0 +1,249 @@
+import type { NetworkGameData } from "./game-engine"
+import type { BandwidthStats } from "./bandwidth-meter"
+import type { ClockSyncStats } from "./clock-sync"
+import type { ReliabilityStats, ReliableChannel } from "./reliable-channel"
+import type { ConnectionState, GameTransport, TransportRole } from "./transport"
+
+/**
+ * Host end of a star topology: one link per client, presented to the game engine as a single
+ * GameTransport. Everything the host sends goes to every client and messages from any client
+ * reach the host's subscribers, so the host relays the match between clients that never talk
+ * to each other directly.
+ *
+ * Each link carries its own session handshake and reliability layer. The hub reports
+ * "reconnecting" while any client is reconnecting, "connected" while at least one client is
+ * connected, and drops links that disconnect for good (see onClientLeft). Spectators never hold up
+ * the match: a spectator link that is reconnecting counts as connected.
+ *
+ * Messages that speak for a player (input and acks) only reach the host from the link that
+ * player completed its handshake on (see bindPlayer), so no client can act for another one.
+ * Pausing is left to pilots: pauses from spectators or from links without a handshake are dropped.
+ */
+export class HostHub implements GameTransport {
+  private messageHandlers: Set<(data: NetworkGameData) => void> = new Set()
+  private stateHandlers: Set<(state: ConnectionState) => void> = new Set()
+  private errorHandlers: Set<(error: string) => void> = new Set()
+  private clientLeftHandlers: Set<(link: ReliableChannel) => void> = new Set()
+  private links: Map<ReliableChannel, ConnectionState> = new Map() // Client link -> its last reported state
+  private spectators: Set<ReliableChannel> = new Set() // Links of clients that only watch
+  private playerIds: Map<ReliableChannel, string> = new Map() // Link -> player id its handshake completed with
+  private state: ConnectionState = "disconnected"
+
+  /**
+   * Starts hosting; clients are added with addClient afterwards
+   * @param role Must be "host"
+   * @returns The host's player id
+   */
+  async connect(role: TransportRole): Promise<string> {
+    if (role !== "host") {
+      throw new Error("HostHub only runs on the host")
+    }
+    this.updateState()
+    return `host_${Date.now()}`
+  }
+
+  /**
+   * Connects a link to one more client and relays through it from now on
+   * @param link The client link, already wrapped for signing and reliability
+   * @throws Error if the link fails to connect; the hub keeps its other clients
+   */
+  async addClient(link: ReliableChannel): Promise<void> {
+    this.links.set(link, "connecting")
+    link.onMessage((data) => {
+      if (this.links.has(link) && this.mayRelay(link, data)) this.messageHandlers.forEach((handler) => handler(data))
+    })
+    link.onError((error) => this.errorHandlers.forEach((handler) => handler(error)))
+    link.onStateChange((state) => this.handleLinkState(link, state))
+    this.updateState()
+
+    try {
+      await link.connect("host")
+    } catch (error) {
+      this.links.delete(link)
+      this.updateState()
+      throw error
+    }
+  }
+
+  /**
+   * Ties a link to the player whose handshake completed on it; from then on input and acks
+   * arriving on the link are only relayed if they carry that player's id
+   */
+  bindPlayer(link: ReliableChannel, playerId: string) {
+    if (!this.links.has(link)) return
+    this.playerIds.set(link, playerId)
+  }
+
+  /**
+   * Marks a client as a spectator once its handshake says so; from then on its reconnects do not
+   * freeze the match, and its link gives up on its own if it does not come back
+   */
+  markSpectator(link: ReliableChannel) {
+    if (!this.links.has(link)) return
+    this.spectators.add(link)
+    this.updateState()
+  }
+
+  /**
+   * Subscribes to clients whose link disconnected for good; returns an unsubscribe function
+   */
+  onClientLeft(handler: (link: ReliableChannel) => void): () => void {
+    this.clientLeftHandlers.add(handler)
+    return () => this.clientLeftHandlers.delete(handler)
+  }
+
+  async send(data: NetworkGameData): Promise<void> {
+    await Promise.all(Array.from(this.links.keys()).map((link) => link.send(data)))
+  }
+
+  onMessage(handler: (data: NetworkGameData) => void): () => void {
+    this.messageHandlers.add(handler)
+    return () => this.messageHandlers.delete(handler)
+  }
+
+  onStateChange(handler: (state: ConnectionState) => void): () => void {
+    this.stateHandlers.add(handler)
+    return () => this.stateHandlers.delete(handler)
+  }
+
+  onError(handler: (error: string) => void): () => void {
+    this.errorHandlers.add(handler)
+    return () => this.errorHandlers.delete(handler)
+  }
+
+  /**
+   * Gives up on clients that are still trying to reconnect; they leave the match as if their
+   * link had timed out, while connected clients stay
+   */
+  disconnectReconnecting() {
+    this.links.forEach((state, link) => {
+      if (state === "reconnecting") link.disconnect()
+    })
+  }
+
+  disconnect() {
+    const links = Array.from(this.links.keys())
+    this.links.clear()
+    this.spectators.clear()
+    this.playerIds.clear()
+    links.forEach((link) => link.disconnect())
+    this.updateState()
+  }
+
+  isConnected(): boolean {
+    return this.state === "connected"
+  }
+
+  /**
+   * Statistics of the slowest client link, which is what limits the match
+   */
+  getNetworkStats(): ClockSyncStats {
+    const stats = Array.from(this.links.keys()).map((link) => link.getNetworkStats())
+    return stats.reduce((worst, current) => (current.rtt > worst.rtt ? current : worst), {
+      rtt: 0,
+      offset: 0,
+      jitter: 0,
+      samples: 0,
+    })
+  }
+
+  /**
+   * Traffic summed over all client links
+   */
+  getBandwidthStats(): BandwidthStats {
+    const total: BandwidthStats = {
+      sentBytesPerSecond: 0,
+      receivedBytesPerSecond: 0,
+      sentPacketsPerSecond: 0,
+      receivedPacketsPerSecond: 0,
+    }
+    this.links.forEach((_, link) => {
+      const stats = link.getBandwidthStats()
+      total.sentBytesPerSecond += stats.sentBytesPerSecond
+      total.receivedBytesPerSecond += stats.receivedBytesPerSecond
+      total.sentPacketsPerSecond += stats.sentPacketsPerSecond
+      total.receivedPacketsPerSecond += stats.receivedPacketsPerSecond
+    })
+    return total
+  }
+
+  /**
+   * Delivery counters summed over all client links
+   */
+  getReliabilityStats(): ReliabilityStats {
+    const total = {
+      reliableSent: 0,
+      reliablePending: 0,
+      retransmits: 0,
+      unreliableReceived: 0,
+      unreliableLost: 0,
+      staleDropped: 0,
+    }
+    this.links.forEach((_, link) => {
+      const stats = link.getReliabilityStats()
+      total.reliableSent += stats.reliableSent
+      total.reliablePending += stats.reliablePending
+      total.retransmits += stats.retransmits
+      total.unreliableReceived += stats.unreliableReceived
+      total.unreliableLost += stats.unreliableLost
+      total.staleDropped += stats.staleDropped
+    })
+    const received = total.unreliableReceived + total.unreliableLost
+    return { ...total, lossRate: received > 0 ? total.unreliableLost / received : 0 }
+  }
+
+  now(): number {
+    return Date.now()
+  }
+
+  private handleLinkState(link: ReliableChannel, state: ConnectionState) {
+    const previous = this.links.get(link)
+    if (previous === undefined) return
+
+    if (state === "disconnected") {
+      this.links.delete(link)
+      this.spectators.delete(link)
+      this.playerIds.delete(link)
+      // Links that never connected failed in addClient, which reports that itself
+      if (previous !== "connecting") {
+        this.clientLeftHandlers.forEach((handler) => handler(link))
+      }
+    } else {
+      this.links.set(link, state)
+    }
+    this.updateState()
+  }
+
+  /**
+   * Whether a message from a link may reach the host: messages that name the player they come
+   * from must name the one bound to the link, which drops them before the handshake completed,
+   * and only pilots may pause
+   * @private
+   */
+  private mayRelay(link: ReliableChannel, data: NetworkGameData): boolean {
+    if (data.type === "matchPaused") return this.playerIds.has(link) && !this.spectators.has(link)
+    if (data.type !== "playerInput" && data.type !== "worldAck") return true
+    return this.playerIds.get(link) === data.playerId
+  }
+
+  /**
+   * Derives the hub's state from its links and reports it when it changed
+   * @private
+   */
+  private updateState() {
+    const states = Array.from(this.links.entries()).map(([link, state]) =>
+      state === "reconnecting" && this.spectators.has(link) ? "connected" : state,
+    )
+    const next: ConnectionState = states.includes("reconnecting")
+      ? "reconnecting"
+      : states.includes("connected")
+        ? "connected"
+        : states.includes("connecting")
+          ? "connecting"
+          : "disconnected"
+
+    if (next === this.state) return
+    this.state = next
+    this.stateHandlers.forEach((handler) => handler(next))
+  }
+}
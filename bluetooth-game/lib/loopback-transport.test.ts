@@ -0,0 +1,136 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { GameEngine, type MatchSettings, type NetworkGameData, type PlayerProfile } from "./game-engine"
+import { HostHub } from "./host-hub"
+import { createLoopbackPair } from "./loopback-transport"
+import { ReliableChannel } from "./reliable-channel"
+import { SessionHandshake, type SessionInfo } from "./session-handshake"
+import { SignedTransport, deriveSessionKey } from "./signed-transport"
+
+const SETTINGS: MatchSettings = { durationSeconds: 300, winScore: 1000 }
+const HOST_PROFILE: PlayerProfile = { callsign: "Host", ship: "viper" }
+const CLIENT_PROFILE: PlayerProfile = { callsign: "Loopback 1", ship: "ember" }
+
+/** Canvas stand-in; update() never draws, so the context is never used */
+function createCanvas(): HTMLCanvasElement {
+  return { width: 800, height: 600, getContext: () => ({}) } as unknown as HTMLCanvasElement
+}
+
+let cleanup: (() => void)[] = []
+
+/**
+ * A host and one client wired the way app/page.tsx wires a loopback peer: a loopback pair with
+ * some latency, signed and made reliable, behind a HostHub on the host side
+ */
+async function createSession() {
+  const key = await deriveSessionKey("123456")
+  const [hostEnd, clientEnd] = createLoopbackPair({ latencyMs: 20, jitterMs: 5 })
+
+  const hub = new HostHub()
+  const host = new GameEngine(createCanvas(), { captureInput: false })
+  host.setNetworkUpdateCallback((data) => void hub.send(data))
+  hub.onMessage((data) => host.handleNetworkUpdate(data))
+  host.setClock(() => hub.now())
+  const hostId = await hub.connect("host")
+  host.initializeAsHost(hostId)
+  host.setPlayerProfile(hostId, HOST_PROFILE)
+
+  const link = new ReliableChannel(new SignedTransport(hostEnd, key))
+  const hostHandshake = new SessionHandshake(link, "host", HOST_PROFILE, SETTINGS)
+  const hostSession = new Promise<SessionInfo>((resolve) => hostHandshake.onReady(resolve))
+  hostHandshake.onReady((info) => {
+    hub.bindPlayer(link, info.peer.playerId)
+    host.addRemotePlayer(info.peer.playerId, info.peer)
+    host.sendWorldSnapshot("join")
+  })
+
+  const transport = new ReliableChannel(new SignedTransport(clientEnd, key))
+  const client = new GameEngine(createCanvas(), { captureInput: false })
+  const received: NetworkGameData[] = []
+  client.setNetworkUpdateCallback((data) => void transport.send(data))
+  transport.onMessage((data) => {
+    received.push(data)
+    client.handleNetworkUpdate(data)
+  })
+  client.setClock(() => transport.now())
+  const clientHandshake = new SessionHandshake(transport, "client", CLIENT_PROFILE, SETTINGS)
+  const clientSession = new Promise<SessionInfo>((resolve) => clientHandshake.onReady(resolve))
+
+  await hub.addClient(link)
+  const clientId = await transport.connect("client")
+  client.initializeAsClient(clientId)
+  client.setPlayerProfile(clientId, CLIENT_PROFILE)
+  clientHandshake.start(clientId)
+  hostHandshake.start(hostId)
+
+  cleanup.push(() => {
+    hub.disconnect()
+    transport.disconnect()
+  })
+  return { host, client, hostId, clientId, hostSession, clientSession, received }
+}
+
+/** Runs both engines at roughly 60 frames a second until the check passes or time runs out */
+async function runUntil(engines: GameEngine[], check: () => void, timeout = 3000) {
+  await vi.waitFor(
+    () => {
+      engines.forEach((engine) => engine.update())
+      check()
+    },
+    { timeout, interval: 16 },
+  )
+}
+
+/** Runs the engines at roughly 60 frames a second for the given time */
+async function runFor(engines: GameEngine[], ms: number) {
+  const end = Date.now() + ms
+  while (Date.now() < end) {
+    engines.forEach((engine) => engine.update())
+    await new Promise((resolve) => setTimeout(resolve, 16))
+  }
+}
+
+afterEach(() => {
+  cleanup.forEach((dispose) => dispose())
+  cleanup = []
+})
+
+describe("two engines over a loopback link", () => {
+  it("completes the handshake, starts the match and exchanges input and world deltas", async () => {
+    const { host, client, hostId, clientId, hostSession, clientSession, received } = await createSession()
+
+    // Handshake: each side learns who the other is and both agree on the settings
+    const [hostInfo, clientInfo] = await Promise.all([hostSession, clientSession])
+    expect(hostInfo.peer).toMatchObject({ playerId: clientId, ...CLIENT_PROFILE })
+    expect(clientInfo.peer).toMatchObject({ playerId: hostId, ...HOST_PROFILE })
+    expect(clientInfo.settings).toEqual(SETTINGS)
+
+    // Match start reaches the client
+    host.startGame()
+    await runUntil([host, client], () => {
+      expect(received.some((data) => data.type === "matchStart")).toBe(true)
+      expect(client.serializeWorld().inProgress).toBe(true)
+    })
+
+    // The client's input reaches the host, and deltas carry the host's acknowledgement of it back
+    const acknowledgedInput = () => {
+      const ownStates = received.flatMap((data) => (data.type === "worldDelta" ? data.players : []))
+      return Math.max(0, ...ownStates.filter((player) => player.playerId === clientId).map((player) => player.lastInputSeq ?? 0))
+    }
+    await runUntil([host, client], () => {
+      const hostView = host.serializeWorld().players.find((player) => player.playerId === clientId)
+      expect(hostView?.lastInputSeq).toBeGreaterThan(10)
+      expect(acknowledgedInput()).toBeGreaterThan(10)
+    })
+
+    // Input the client records after a long hitch is accepted straight away; the host keeps
+    // running meanwhile, so everything sent before the hitch is acknowledged by the time it ends
+    await runFor([host], 400)
+    const beforeHitch = acknowledgedInput()
+    await runFor([host, client], 400)
+    expect(acknowledgedInput()).toBeGreaterThan(beforeHitch + 5)
+
+    const deltas = received.filter((data) => data.type === "worldDelta")
+    expect(deltas.some((delta) => delta.baseTick > 0)).toBe(true)
+    expect(client.serializeWorld().players.map((player) => player.playerId).sort()).toEqual([clientId, hostId].sort())
+  })
+})
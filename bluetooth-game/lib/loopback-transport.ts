@@ -0,0 +1,116 @@
+import { NetworkGameData } from "./game-engine"
+import { BaseTransport, TransportRole } from "./transport"
+import { decodeMessage, encodeMessage } from "./wire-codec"
+
+/**
+ * Simulated link characteristics applied to every message sent over a loopback pair
+ */
+export interface LoopbackLinkOptions {
+  latencyMs: number     // Base one-way delay
+  jitterMs: number      // Random +/- variation added to the delay
+  packetLoss: number    // Probability (0-1) that a message is dropped
+}
+
+const DEFAULT_LINK_OPTIONS: LoopbackLinkOptions = {
+  latencyMs: 0,
+  jitterMs: 0,
+  packetLoss: 0,
+}
+
+/**
+ * In-memory GameTransport that delivers messages to a paired instance in the same process.
+ * Messages go through the wire codec on send, so receivers never share object references with
+ * the sender and see exactly what a real link would deliver.
+ */
+export class LoopbackTransport extends BaseTransport {
+  private peer: LoopbackTransport | null = null
+  private connected = false
+  private link: LoopbackLinkOptions
+  private pendingDeliveries: Set<ReturnType<typeof setTimeout>> = new Set()
+
+  constructor(link: Partial<LoopbackLinkOptions> = {}) {
+    super()
+    this.link = { ...DEFAULT_LINK_OPTIONS, ...link }
+  }
+
+  /**
+   * Links this transport with another one; messages sent on either end arrive at the other
+   * @param peer The transport at the other end of the link
+   */
+  pairWith(peer: LoopbackTransport) {
+    this.peer = peer
+    peer.peer = this
+  }
+
+  /**
+   * Updates the simulated link characteristics; takes effect for the next message sent
+   * @param link The link options to change
+   */
+  setLinkOptions(link: Partial<LoopbackLinkOptions>) {
+    this.link = { ...this.link, ...link }
+  }
+
+  async connect(role: TransportRole): Promise<string> {
+    if (!this.peer) {
+      throw new Error("Loopback transport has no peer")
+    }
+
+    this.role = role
+    this.emitStateChange("connecting")
+    this.connected = true
+    this.emitStateChange("connected")
+
+    return `${role}_${Date.now()}`
+  }
+
+  async send(data: NetworkGameData): Promise<void> {
+    const peer = this.peer
+    if (!this.connected || !peer?.connected) return
+
+    const wire = encodeMessage(data)
+    const size = wire.length
+    this.bandwidth.recordSent(size)
+    if (Math.random() < this.link.packetLoss) return
+
+    const delay = Math.max(0, this.link.latencyMs + (Math.random() * 2 - 1) * this.link.jitterMs)
+
+    const timeout = setTimeout(() => {
+      this.pendingDeliveries.delete(timeout)
+      if (peer.connected) {
+        peer.bandwidth.recordReceived(size)
+        peer.emitMessage(decodeMessage(wire))
+      }
+    }, delay)
+    this.pendingDeliveries.add(timeout)
+  }
+
+  disconnect(): void {
+    this.pendingDeliveries.forEach((timeout) => clearTimeout(timeout))
+    this.pendingDeliveries.clear()
+
+    const wasConnected = this.connected
+    this.connected = false
+    this.emitStateChange("disconnected")
+
+    // Let the other end notice, as it would when a real link drops
+    if (wasConnected && this.peer?.connected) {
+      this.peer.disconnect()
+    }
+  }
+
+  isConnected(): boolean {
+    return this.connected
+  }
+}
+
+/**
+ * Creates two loopback transports wired to each other, e.g. one for a host engine and one for a client engine
+ * @param link Simulated latency, jitter and packet loss applied in both directions
+ * @returns The two ends of the link
+ */
+export function createLoopbackPair(link: Partial<LoopbackLinkOptions> = {}): [LoopbackTransport, LoopbackTransport] {
+  const a = new LoopbackTransport(link)
+  const b = new LoopbackTransport(link)
+  a.pairWith(b)
+  return [a, b]
+}
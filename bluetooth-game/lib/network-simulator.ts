@@ -0,0 +1,159 @@
+import type { NetworkGameData } from "./game-engine"
+import type { ClockSyncStats } from "./clock-sync"
+import type { BandwidthStats } from "./bandwidth-meter"
+import type { ConnectionState, GameTransport, TransportRole } from "./transport"
+
+/**
+ * Impairments a NetworkSimulator applies to each direction of a link
+ */
+export interface NetworkConditions {
+  latencyMs: number      // Extra one-way delay
+  jitterMs: number       // Random +/- variation added to the delay
+  packetLoss: number     // Probability (0-1) that a message is dropped
+  duplicateRate: number  // Probability (0-1) that a message is delivered twice
+  reorderRate: number    // Probability (0-1) that a message is held back so later ones overtake it
+}
+
+/** A link left as it is */
+export const IDEAL_NETWORK_CONDITIONS: NetworkConditions = {
+  latencyMs: 0,
+  jitterMs: 0,
+  packetLoss: 0,
+  duplicateRate: 0,
+  reorderRate: 0,
+}
+
+const REORDER_HOLD_MS = 60      // Extra delay of a reordered message; a few frames of traffic pass it
+const DUPLICATE_SPREAD_MS = 20  // Longest gap between a message and its duplicate
+
+/**
+ * GameTransport decorator that degrades a link on purpose, for reproducing sync bugs on demand.
+ * Outgoing and incoming messages are delayed, dropped, duplicated and reordered according to the
+ * current conditions, which can be changed at any time, including during a match.
+ *
+ * It sits directly on the base transport, below SignedTransport, so duplicates and reordered
+ * messages exercise replay protection and the reliable channel exactly like a bad radio would.
+ * Clock sync pings are answered by the base transport and bypass the simulator; the reported RTT
+ * and jitter therefore add the simulated delay to what was measured.
+ */
+export class NetworkSimulator implements GameTransport {
+  private messageHandlers: Set<(data: NetworkGameData) => void> = new Set()
+  private conditions: NetworkConditions
+  private pendingDeliveries: Map<ReturnType<typeof setTimeout>, () => void> = new Map() // Timer -> settles its delivery
+
+  constructor(
+    private readonly inner: GameTransport,
+    conditions: Partial<NetworkConditions> = {},
+  ) {
+    this.conditions = { ...IDEAL_NETWORK_CONDITIONS, ...conditions }
+    inner.onMessage((data) => {
+      this.impair(() => this.messageHandlers.forEach((handler) => handler(data)))
+    })
+  }
+
+  /**
+   * Updates the simulated conditions; takes effect for the next message in either direction
+   */
+  setConditions(conditions: Partial<NetworkConditions>) {
+    this.conditions = { ...this.conditions, ...conditions }
+  }
+
+  getConditions(): NetworkConditions {
+    return { ...this.conditions }
+  }
+
+  connect(role: TransportRole): Promise<string> {
+    return this.inner.connect(role)
+  }
+
+  /**
+   * Settles once the message was handed to the inner transport, with its result, so a message
+   * the link rejects is rejected here too. A message the simulator drops counts as sent.
+   */
+  send(data: NetworkGameData): Promise<void> {
+    return this.impair(() => this.inner.send(data))
+  }
+
+  onMessage(handler: (data: NetworkGameData) => void): () => void {
+    this.messageHandlers.add(handler)
+    return () => this.messageHandlers.delete(handler)
+  }
+
+  onStateChange(handler: (state: ConnectionState) => void): () => void {
+    return this.inner.onStateChange(handler)
+  }
+
+  onError(handler: (error: string) => void): () => void {
+    return this.inner.onError(handler)
+  }
+
+  disconnect() {
+    this.pendingDeliveries.forEach((settle, timeout) => {
+      clearTimeout(timeout)
+      settle()
+    })
+    this.pendingDeliveries.clear()
+    this.inner.disconnect()
+  }
+
+  isConnected(): boolean {
+    return this.inner.isConnected()
+  }
+
+  getNetworkStats(): ClockSyncStats {
+    const stats = this.inner.getNetworkStats()
+    return {
+      ...stats,
+      rtt: stats.rtt + 2 * this.conditions.latencyMs,
+      jitter: stats.jitter + this.conditions.jitterMs,
+    }
+  }
+
+  getBandwidthStats(): BandwidthStats {
+    return this.inner.getBandwidthStats()
+  }
+
+  now(): number {
+    return this.inner.now()
+  }
+
+  /**
+   * Runs a delivery (a send or a receive) under the current conditions: maybe not at all,
+   * maybe twice, and after the simulated delay
+   * @returns Settles with the first delivery; a duplicate's failure is only logged
+   * @private
+   */
+  private impair(deliver: () => Promise<void> | void): Promise<void> {
+    const { latencyMs, jitterMs, packetLoss, duplicateRate, reorderRate } = this.conditions
+    if (Math.random() < packetLoss) return Promise.resolve()
+
+    let delay = Math.max(0, latencyMs + (Math.random() * 2 - 1) * jitterMs)
+    if (Math.random() < reorderRate) delay += REORDER_HOLD_MS
+
+    const delivered = this.schedule(deliver, delay)
+    if (Math.random() < duplicateRate) {
+      this.schedule(deliver, delay + Math.random() * DUPLICATE_SPREAD_MS).catch((error) =>
+        console.warn("Simulated duplicate failed:", error),
+      )
+    }
+    return delivered
+  }
+
+  private schedule(deliver: () => Promise<void> | void, delay: number): Promise<void> {
+    // An untouched link stays synchronous, so leaving the simulator in place costs nothing
+    if (delay <= 0) return Promise.resolve(deliver())
+
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.pendingDeliveries.delete(timeout)
+        try {
+          Promise.resolve(deliver()).then(resolve, reject)
+        } catch (error) {
+          reject(error)
+        }
+      }, delay)
+      // A delivery cancelled by disconnect() never happens; its sender stops waiting
+      this.pendingDeliveries.set(timeout, resolve)
+    })
+  }
+}
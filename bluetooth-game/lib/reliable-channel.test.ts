@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import type { GameMessage, NetworkGameData } from "./game-engine"
+import { LoopbackTransport } from "./loopback-transport"
+import { NetworkSimulator } from "./network-simulator"
+import { ReliableChannel } from "./reliable-channel"
+import { MessageTooLargeError } from "./transport"
+
+const paused = (value: boolean): GameMessage => ({ type: "matchPaused", paused: value })
+
+const delta = (tick: number): GameMessage => ({
+  type: "worldDelta",
+  tick,
+  baseTick: 0,
+  timestamp: tick,
+  gameTime: tick,
+  players: [],
+  removedPlayers: [],
+  asteroids: [],
+  removedAsteroids: [],
+  powerUps: [],
+  removedPowerUps: [],
+})
+
+/** Loopback link that refuses world snapshots, like a link whose frames cannot hold one */
+class SmallLink extends LoopbackTransport {
+  async send(data: NetworkGameData): Promise<void> {
+    if (data.type === "envelope" && data.message?.type === "worldSnapshot") {
+      throw new MessageTooLargeError("worldSnapshot does not fit")
+    }
+    return super.send(data)
+  }
+}
+
+/**
+ * Two reliable channels over a loopback pair. Loss and latency are set per direction on the
+ * sending end of the pair; the host also sends through a network simulator, for duplicates.
+ */
+async function createLink(createTransport = () => new LoopbackTransport()) {
+  const toClient = createTransport()
+  const toHost = createTransport()
+  toClient.pairWith(toHost)
+  const simulator = new NetworkSimulator(toClient)
+  const host = new ReliableChannel(simulator)
+  const client = new ReliableChannel(toHost)
+  const received: NetworkGameData[] = []
+  const errors: string[] = []
+  client.onMessage((data) => received.push(data))
+  host.onError((error) => errors.push(error))
+  await host.connect("host")
+  await client.connect("client")
+  return { host, client, toClient, toHost, simulator, received, errors }
+}
+
+beforeEach(() => {
+  vi.useFakeTimers()
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe("ReliableChannel", () => {
+  it("delivers reliable messages in order and clears them once acknowledged", async () => {
+    const { host, received } = await createLink()
+    await host.send(paused(true))
+    await host.send(paused(false))
+    await vi.advanceTimersByTimeAsync(200)
+
+    expect(received).toEqual([paused(true), paused(false)])
+    expect(host.getReliabilityStats().reliablePending).toBe(0)
+  })
+
+  it("resends a reliable message that was lost and delivers it once", async () => {
+    const { host, toClient, simulator, received } = await createLink()
+    toClient.setLinkOptions({ packetLoss: 1 })
+    await host.send(paused(true))
+    await vi.advanceTimersByTimeAsync(200)
+    expect(received).toEqual([])
+
+    toClient.setLinkOptions({ packetLoss: 0 })
+    simulator.setConditions({ duplicateRate: 1 })
+    await vi.advanceTimersByTimeAsync(1000)
+
+    expect(received).toEqual([paused(true)])
+    expect(host.getReliabilityStats().retransmits).toBeGreaterThan(0)
+    expect(host.getReliabilityStats().reliablePending).toBe(0)
+  })
+
+  it("keeps resending while the ack is lost", async () => {
+    const { host, toHost, received } = await createLink()
+    toHost.setLinkOptions({ packetLoss: 1 })
+    await host.send(paused(true))
+    await vi.advanceTimersByTimeAsync(1000)
+
+    expect(received).toEqual([paused(true)])
+    expect(host.getReliabilityStats().retransmits).toBeGreaterThan(0)
+    expect(host.getReliabilityStats().reliablePending).toBe(1)
+
+    toHost.setLinkOptions({ packetLoss: 0 })
+    await vi.advanceTimersByTimeAsync(2000)
+    expect(received).toEqual([paused(true)])
+    expect(host.getReliabilityStats().reliablePending).toBe(0)
+  })
+
+  it("holds back reliable messages until the gap before them is filled", async () => {
+    const { host, toClient, received } = await createLink()
+    toClient.setLinkOptions({ latencyMs: 100 })
+    await host.send(paused(true))
+    toClient.setLinkOptions({ latencyMs: 0 })
+    await host.send(paused(false))
+    await vi.advanceTimersByTimeAsync(50)
+    expect(received).toEqual([])
+
+    await vi.advanceTimersByTimeAsync(100)
+    expect(received).toEqual([paused(true), paused(false)])
+  })
+
+  it("drops a world delta that arrives after a newer one", async () => {
+    const { host, client, toClient, received } = await createLink()
+    toClient.setLinkOptions({ latencyMs: 100 })
+    await host.send(delta(1))
+    toClient.setLinkOptions({ latencyMs: 0 })
+    await host.send(delta(2))
+    await vi.advanceTimersByTimeAsync(200)
+
+    expect(received).toEqual([delta(2)])
+    expect(client.getReliabilityStats().staleDropped).toBe(1)
+  })
+
+  it("gives up on a reliable message after 12 attempts", async () => {
+    const { host, toClient, received, errors } = await createLink()
+    toClient.setLinkOptions({ packetLoss: 1 })
+    await host.send(paused(true))
+    await vi.advanceTimersByTimeAsync(60000)
+
+    expect(received).toEqual([])
+    expect(errors).toContain("Reliable matchPaused message was not acknowledged after 12 attempts")
+    expect(host.getReliabilityStats().reliablePending).toBe(0)
+    expect(host.getReliabilityStats().retransmits).toBe(11)
+
+    // The receiver skips the message it will never get instead of waiting for it
+    toClient.setLinkOptions({ packetLoss: 0 })
+    await host.send(paused(false))
+    await vi.advanceTimersByTimeAsync(200)
+    expect(received).toEqual([paused(false)])
+  })
+
+  it("drops a message the link can never carry without holding up later ones", async () => {
+    const { host, received } = await createLink(() => new SmallLink())
+    const tooLarge = host.send({
+      type: "worldSnapshot",
+      reason: "join",
+      world: {
+        gameTime: 0,
+        inProgress: false,
+        paused: false,
+        matchResult: null,
+        players: [],
+        asteroids: [],
+        powerUps: [],
+        projectiles: [],
+      },
+    })
+    await expect(tooLarge).rejects.toBeInstanceOf(MessageTooLargeError)
+    expect(host.getReliabilityStats().reliablePending).toBe(0)
+
+    await host.send(paused(true))
+    await vi.advanceTimersByTimeAsync(200)
+    expect(received).toEqual([paused(true)])
+    expect(host.getReliabilityStats().retransmits).toBe(0)
+  })
+
+  it("keeps delivering when the other side restarts its channel", async () => {
+    const { host, client, received } = await createLink()
+    const fromClient: NetworkGameData[] = []
+    host.onMessage((data) => fromClient.push(data))
+    for (const value of [true, false, true]) await host.send(paused(value))
+    await client.send(paused(true))
+    await vi.advanceTimersByTimeAsync(200)
+    expect(received).toHaveLength(3)
+
+    // The host starts over at sequence 1; the client must not mistake that for old messages
+    await host.connect("host")
+    await host.send(paused(false))
+    await vi.advanceTimersByTimeAsync(200)
+    expect(received).toEqual([paused(true), paused(false), paused(true), paused(false)])
+
+    // The client starts over too; the host accepts its new sequence just the same
+    await client.connect("client")
+    await client.send(paused(false))
+    await vi.advanceTimersByTimeAsync(200)
+    expect(fromClient).toEqual([paused(true), paused(false)])
+    expect(host.getReliabilityStats().reliablePending).toBe(0)
+    expect(client.getReliabilityStats().reliablePending).toBe(0)
+  })
+})
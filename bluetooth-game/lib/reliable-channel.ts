@@ -0,0 +1,432 @@
+import type { GameMessage, NetworkGameData } from "./game-engine"
+import type { ClockSyncStats } from "./clock-sync"
+import type { BandwidthStats } from "./bandwidth-meter"
+import { MessageTooLargeError, type ConnectionState, type GameTransport, type TransportRole } from "./transport"
+
+type Envelope = Extract<NetworkGameData, { type: "envelope" }>
+
+/**
+ * Delivery counters reported by ReliableChannel
+ */
+export interface ReliabilityStats {
+  reliableSent: number       // Reliable messages handed to the channel
+  reliablePending: number    // Reliable messages sent but not yet acknowledged
+  retransmits: number        // Reliable resends after an ack timeout
+  unreliableReceived: number // Unreliable messages that arrived
+  unreliableLost: number     // Gaps in the unreliable sequence that never filled
+  staleDropped: number       // Unreliable updates discarded because a newer one already arrived
+  lossRate: number           // unreliableLost / (unreliableReceived + unreliableLost)
+}
+
+/**
+ * Message types that must arrive exactly once and in order. Everything else is
+ * superseded by the next update anyway, so it is sent fire-and-forget.
+ */
+const RELIABLE_MESSAGE_TYPES: ReadonlySet<GameMessage["type"]> = new Set<GameMessage["type"]>([
+  "playerHit",
+  "playerDestroyed",
+  "powerUpCollected",
+  "asteroidDestroyed",
+  "matchStart",
+  "matchPaused",
+  "matchEnded",
+  "worldSnapshot",
+  "snapshotRequest",
+  "roster",
+  "hello",
+  "matchSettings",
+  "matchSettingsAccepted",
+])
+
+/**
+ * Whether messages of a type need reliable, in-order delivery; lets transports with a reliable
+ * lane of their own (see WebRtcTransport) route traffic that is not wrapped in envelopes
+ */
+export function isReliableMessageType(type: GameMessage["type"]): boolean {
+  return RELIABLE_MESSAGE_TYPES.has(type)
+}
+
+const ACK_DELAY_MS = 50               // Wait this long for outgoing traffic to piggyback an ack on
+const RETRANSMIT_CHECK_MS = 50        // How often unacknowledged messages are checked
+const DEFAULT_RETRANSMIT_MS = 300     // Retransmit timeout before the link has been measured
+const MIN_RETRANSMIT_MS = 100
+const MAX_RETRANSMIT_MS = 2000
+const MAX_SEND_ATTEMPTS = 12          // Give up on a reliable message after this many sends
+const MAX_OUT_OF_ORDER = 64           // Reliable messages buffered ahead of a gap
+const MAX_SESSION_ID = 0x1fffff       // Session ids fit a 3-byte varuint
+
+interface PendingMessage {
+  message: GameMessage
+  lastSentAt: number
+  attempts: number
+}
+
+function createSessionId(): number {
+  return 1 + Math.floor(Math.random() * MAX_SESSION_ID)
+}
+
+/**
+ * GameTransport decorator that adds sequence numbers, acknowledgements and retransmission on
+ * top of an unreliable transport. Reliable messages are delivered exactly once and in order;
+ * unreliable ones are delivered as they arrive, except that a worldDelta older than one
+ * already delivered is dropped.
+ *
+ * Messages travel inside "envelope" messages carrying the channel, a per-channel sequence
+ * number and a cumulative ack of the reliable messages received so far. Every envelope also
+ * names the sender's session, which changes each time its channel starts over, and the oldest
+ * reliable message it still waits on. A receiver that sees a new session restarts its incoming
+ * sequence state from there, so either side can restart without the other one stalling.
+ */
+export class ReliableChannel implements GameTransport {
+  private messageHandlers: Set<(data: NetworkGameData) => void> = new Set()
+  private errorHandlers: Set<(error: string) => void> = new Set()
+  private retransmitInterval: ReturnType<typeof setInterval> | null = null
+  private ackTimeout: ReturnType<typeof setTimeout> | null = null
+
+  // Outgoing
+  private session = createSessionId()
+  private nextReliableSeq = 0
+  private nextUnreliableSeq = 0
+  private pending: Map<number, PendingMessage> = new Map()
+
+  // Incoming
+  private remoteSession: number | null = null
+  private retiredRemoteSessions: Set<number> = new Set() // Late envelopes from these are ignored
+  private receivedReliableSeq = 0                    // Highest reliable seq delivered in order
+  private outOfOrder: Map<number, GameMessage> = new Map()
+  private highestUnreliableSeq = 0
+  private latestDeltaSeq = 0                         // Seq of the newest worldDelta delivered
+
+  private stats = {
+    reliableSent: 0,
+    retransmits: 0,
+    unreliableReceived: 0,
+    unreliableLost: 0,
+    staleDropped: 0,
+  }
+
+  constructor(private readonly inner: GameTransport) {
+    inner.onMessage((data) => this.handleIncoming(data))
+    inner.onStateChange((state) => this.handleStateChange(state))
+  }
+
+  async connect(role: TransportRole): Promise<string> {
+    this.reset()
+    return this.inner.connect(role)
+  }
+
+  async send(data: NetworkGameData): Promise<void> {
+    // Already wrapped by some transport layer; nothing to sequence
+    if (data.type === "envelope" || data.type === "signed") {
+      return this.inner.send(data)
+    }
+
+    if (RELIABLE_MESSAGE_TYPES.has(data.type)) {
+      const seq = ++this.nextReliableSeq
+      this.pending.set(seq, { message: data, lastSentAt: Date.now(), attempts: 1 })
+      this.stats.reliableSent++
+      return this.transmit("reliable", seq, data).catch((error) => {
+        this.dropIfTooLarge(seq, error)
+        throw error
+      })
+    }
+
+    return this.transmit("unreliable", ++this.nextUnreliableSeq, data)
+  }
+
+  onMessage(handler: (data: NetworkGameData) => void): () => void {
+    this.messageHandlers.add(handler)
+    return () => this.messageHandlers.delete(handler)
+  }
+
+  onStateChange(handler: (state: ConnectionState) => void): () => void {
+    return this.inner.onStateChange(handler)
+  }
+
+  onError(handler: (error: string) => void): () => void {
+    this.errorHandlers.add(handler)
+    const unsubscribeInner = this.inner.onError(handler)
+    return () => {
+      this.errorHandlers.delete(handler)
+      unsubscribeInner()
+    }
+  }
+
+  disconnect() {
+    this.stopTimers()
+    this.inner.disconnect()
+  }
+
+  isConnected(): boolean {
+    return this.inner.isConnected()
+  }
+
+  getNetworkStats(): ClockSyncStats {
+    return this.inner.getNetworkStats()
+  }
+
+  getBandwidthStats(): BandwidthStats {
+    return this.inner.getBandwidthStats()
+  }
+
+  now(): number {
+    return this.inner.now()
+  }
+
+  /**
+   * Returns delivery counters for both channels
+   */
+  getReliabilityStats(): ReliabilityStats {
+    const { unreliableReceived, unreliableLost } = this.stats
+    const total = unreliableReceived + unreliableLost
+    return {
+      ...this.stats,
+      reliablePending: this.pending.size,
+      lossRate: total > 0 ? unreliableLost / total : 0,
+    }
+  }
+
+  /**
+   * Wraps a message in an envelope carrying the latest ack and hands it to the inner transport.
+   * Any outgoing envelope doubles as an ack, so a pending standalone ack is cancelled.
+   */
+  private transmit(channel: Envelope["channel"], seq: number, message?: GameMessage): Promise<void> {
+    this.cancelAck()
+    return this.inner.send(this.createEnvelope(channel, seq, message))
+  }
+
+  private createEnvelope(channel: Envelope["channel"], seq: number, message?: GameMessage): Envelope {
+    let base = this.nextReliableSeq + 1
+    this.pending.forEach((_, pendingSeq) => {
+      base = Math.min(base, pendingSeq)
+    })
+    return { type: "envelope", channel, seq, ack: this.receivedReliableSeq, session: this.session, base, message }
+  }
+
+  private handleIncoming(data: NetworkGameData) {
+    // Peers that do not wrap their traffic are passed straight through
+    if (data.type !== "envelope") {
+      this.deliver(data)
+      return
+    }
+
+    if (data.session !== this.remoteSession) {
+      if (this.retiredRemoteSessions.has(data.session)) return
+      this.startRemoteSession(data.session)
+    }
+    this.skipTo(data.base)
+    this.handleAck(data.ack)
+    if (!data.message) return
+
+    if (data.channel === "reliable") {
+      this.receiveReliable(data.seq, data.message)
+    } else {
+      this.receiveUnreliable(data.seq, data.message)
+    }
+  }
+
+  private handleAck(ack: number) {
+    this.pending.forEach((_, seq) => {
+      if (seq <= ack) this.pending.delete(seq)
+    })
+  }
+
+  /**
+   * The peer's channel started over (or this is the first envelope from it): its sequence
+   * numbers no longer continue the ones received so far
+   */
+  private startRemoteSession(session: number) {
+    if (this.remoteSession !== null) this.retiredRemoteSessions.add(this.remoteSession)
+    this.remoteSession = session
+    this.receivedReliableSeq = 0
+    this.outOfOrder.clear()
+    this.highestUnreliableSeq = 0
+    this.latestDeltaSeq = 0
+  }
+
+  /**
+   * Moves past reliable messages the peer no longer waits on: ones acked before we started
+   * listening to this session, or ones it gave up on. Buffered messages among them still go out.
+   */
+  private skipTo(base: number) {
+    while (this.receivedReliableSeq < base - 1) {
+      const skipped = this.outOfOrder.get(++this.receivedReliableSeq)
+      if (skipped) {
+        this.outOfOrder.delete(this.receivedReliableSeq)
+        this.deliver(skipped)
+      }
+    }
+    this.releaseBuffered()
+  }
+
+  private receiveReliable(seq: number, message: GameMessage) {
+    // Always (re-)ack, even for duplicates: the peer resends when our previous ack was lost
+    this.scheduleAck()
+
+    if (seq <= this.receivedReliableSeq) return
+    if (seq > this.receivedReliableSeq + 1) {
+      if (seq - this.receivedReliableSeq <= MAX_OUT_OF_ORDER) {
+        this.outOfOrder.set(seq, message)
+      }
+      return
+    }
+
+    this.receivedReliableSeq = seq
+    this.deliver(message)
+    this.releaseBuffered()
+  }
+
+  /**
+   * Delivers buffered messages that are next in order
+   */
+  private releaseBuffered() {
+    let next = this.outOfOrder.get(this.receivedReliableSeq + 1)
+    while (next) {
+      this.outOfOrder.delete(++this.receivedReliableSeq)
+      this.deliver(next)
+      next = this.outOfOrder.get(this.receivedReliableSeq + 1)
+    }
+  }
+
+  private receiveUnreliable(seq: number, message: GameMessage) {
+    this.stats.unreliableReceived++
+    if (seq > this.highestUnreliableSeq) {
+      this.stats.unreliableLost += seq - this.highestUnreliableSeq - 1
+      this.highestUnreliableSeq = seq
+    } else if (this.stats.unreliableLost > 0) {
+      // A late arrival fills a gap that was counted as lost
+      this.stats.unreliableLost--
+    }
+
+    if (message.type === "worldDelta") {
+      if (seq < this.latestDeltaSeq) {
+        this.stats.staleDropped++
+        return
+      }
+      this.latestDeltaSeq = seq
+    }
+
+    this.deliver(message)
+  }
+
+  private deliver(data: NetworkGameData) {
+    this.messageHandlers.forEach((handler) => handler(data))
+  }
+
+  /**
+   * Sends a standalone ack if no other envelope goes out within ACK_DELAY_MS
+   */
+  private scheduleAck() {
+    if (this.ackTimeout) return
+    this.ackTimeout = setTimeout(() => {
+      this.ackTimeout = null
+      this.inner
+        .send(this.createEnvelope("unreliable", 0))
+        .catch((error) => this.reportSendFailure("Failed to acknowledge game data", error))
+    }, ACK_DELAY_MS)
+  }
+
+  private cancelAck() {
+    if (this.ackTimeout) {
+      clearTimeout(this.ackTimeout)
+      this.ackTimeout = null
+    }
+  }
+
+  /**
+   * Retransmits only run while the link is up. Unacknowledged messages survive a reconnect
+   * and are resent once it completes.
+   */
+  private handleStateChange(state: ConnectionState) {
+    if (state === "connected") {
+      this.startRetransmits()
+    } else {
+      this.stopTimers()
+    }
+  }
+
+  private startRetransmits() {
+    if (this.retransmitInterval) clearInterval(this.retransmitInterval)
+    this.retransmitInterval = setInterval(() => this.retransmitExpired(), RETRANSMIT_CHECK_MS)
+  }
+
+  /**
+   * Resends reliable messages whose ack is overdue, backing off exponentially per attempt
+   */
+  private retransmitExpired() {
+    const now = Date.now()
+    const timeout = this.getRetransmitTimeout()
+
+    this.pending.forEach((entry, seq) => {
+      const backoff = timeout * 2 ** Math.min(entry.attempts - 1, 4)
+      if (now - entry.lastSentAt < backoff) return
+
+      if (entry.attempts >= MAX_SEND_ATTEMPTS) {
+        this.pending.delete(seq)
+        this.emitError(`Reliable ${entry.message.type} message was not acknowledged after ${entry.attempts} attempts`)
+        return
+      }
+
+      entry.attempts++
+      entry.lastSentAt = now
+      this.stats.retransmits++
+      // The entry stays pending, so a failed resend is simply retried on the next check
+      this.transmit("reliable", seq, entry.message).catch((error) => {
+        this.dropIfTooLarge(seq, error)
+        this.reportSendFailure(`Failed to resend ${entry.message.type} message`, error)
+      })
+    })
+  }
+
+  /**
+   * Retransmit timeout derived from the measured RTT and jitter, in the spirit of RFC 6298
+   */
+  private getRetransmitTimeout(): number {
+    const { rtt, jitter, samples } = this.inner.getNetworkStats()
+    if (samples === 0) return DEFAULT_RETRANSMIT_MS
+    return Math.min(MAX_RETRANSMIT_MS, Math.max(MIN_RETRANSMIT_MS, rtt + 4 * jitter + ACK_DELAY_MS))
+  }
+
+  /**
+   * Gives up on a reliable message the link can never carry instead of resending it. Later
+   * envelopes name the next pending message as their base, so the receiver skips the gap.
+   */
+  private dropIfTooLarge(seq: number, error: unknown) {
+    if (error instanceof MessageTooLargeError) this.pending.delete(seq)
+  }
+
+  private emitError(error: string) {
+    this.errorHandlers.forEach((handler) => handler(error))
+  }
+
+  /**
+   * Reports a send made from a timer, where there is no caller to reject
+   */
+  private reportSendFailure(error: string, cause: unknown) {
+    this.emitError(error)
+    console.error(`${error}:`, cause)
+  }
+
+  private stopTimers() {
+    if (this.retransmitInterval) {
+      clearInterval(this.retransmitInterval)
+      this.retransmitInterval = null
+    }
+    this.cancelAck()
+  }
+
+  private reset() {
+    this.stopTimers()
+    this.session = createSessionId()
+    this.nextReliableSeq = 0
+    this.nextUnreliableSeq = 0
+    this.pending.clear()
+    this.remoteSession = null
+    this.retiredRemoteSessions.clear()
+    this.receivedReliableSeq = 0
+    this.outOfOrder.clear()
+    this.highestUnreliableSeq = 0
+    this.latestDeltaSeq = 0
+    this.stats = { reliableSent: 0, retransmits: 0, unreliableReceived: 0, unreliableLost: 0, staleDropped: 0 }
+  }
+}
@@ -0,0 +1,220 @@
+import { parseNetworkGameData } from "./game-engine"
+import type { MatchSettings, NetworkGameData, PlayerProfile } from "./game-engine"
+import type { GameTransport, TransportRole } from "./transport"
+
+/** Bumped whenever NetworkGameData or its wire encoding changes incompatibly */
+export const PROTOCOL_VERSION = 10
+
+/** Identifies the build in handshake diagnostics; set NEXT_PUBLIC_BUILD_ID when deploying */
+export const BUILD_ID = process.env.NEXT_PUBLIC_BUILD_ID ?? "dev"
+
+/** Optional capabilities this build offers; the session uses those both peers support */
+export const SUPPORTED_FEATURES: readonly string[] = ["reliableChannel", "reconnect", "worldSnapshot", "worldDelta", "stateChecksum"]
+
+/**
+ * Listed among the hello features by peers that join to watch rather than play. It marks a role,
+ * not a capability, but keeps the hello layout unchanged so older builds still report the version
+ * mismatch instead of failing to decode the hello.
+ */
+export const SPECTATOR_FEATURE = "spectator"
+
+/** How long to wait for the other peer to complete the handshake */
+const HANDSHAKE_TIMEOUT_MS = 10000
+
+type Hello = Extract<NetworkGameData, { type: "hello" }>
+
+/**
+ * What the other peer announced about itself
+ */
+export interface PeerInfo extends PlayerProfile {
+  playerId: string
+  buildId: string
+  features: string[]
+  spectator: boolean         // Joined to watch; never flies a ship
+}
+
+/**
+ * Outcome of a successful handshake
+ */
+export interface SessionInfo {
+  peer: PeerInfo
+  features: string[]         // Features both peers support
+  settings: MatchSettings    // Match rules both peers agreed on
+}
+
+/**
+ * Runs the session handshake over a freshly connected transport. Both peers exchange a hello
+ * carrying protocol version, build id, callsign, ship and features, and refuse to continue if the
+ * protocol versions differ. The host then proposes match settings and the client accepts them.
+ *
+ * Create it before connecting so an early hello from the other peer is not missed, then call
+ * start() once the local player id is known. Clients that only want to watch pass spectator, so
+ * the host sends them the match without giving them a ship.
+ */
+export class SessionHandshake {
+  private readyHandlers: Set<(session: SessionInfo) => void> = new Set()
+  private failedHandlers: Set<(reason: string) => void> = new Set()
+  private readonly unsubscribe: () => void
+  private timeout: ReturnType<typeof setTimeout> | null = null
+  private playerId: string | null = null   // Set by start()
+  private peer: PeerInfo | null = null
+  private proposed = false                 // Host: settings have been sent
+  private finished = false
+
+  constructor(
+    private readonly transport: GameTransport,
+    private readonly role: TransportRole,
+    private readonly profile: PlayerProfile,
+    private settings: MatchSettings,
+    private readonly spectator = false,
+  ) {
+    this.unsubscribe = transport.onMessage((data) => this.handleMessage(data))
+  }
+
+  /**
+   * Subscribes to a successful handshake; returns an unsubscribe function
+   */
+  onReady(handler: (session: SessionInfo) => void): () => void {
+    this.readyHandlers.add(handler)
+    return () => this.readyHandlers.delete(handler)
+  }
+
+  /**
+   * Subscribes to handshake failures with a message suitable for the user; returns an unsubscribe function
+   */
+  onFailed(handler: (reason: string) => void): () => void {
+    this.failedHandlers.add(handler)
+    return () => this.failedHandlers.delete(handler)
+  }
+
+  /**
+   * Announces this peer and starts the handshake timeout
+   * @param playerId The local player's id, as returned by GameTransport.connect
+   */
+  start(playerId: string) {
+    this.playerId = playerId
+    this.timeout = setTimeout(() => {
+      this.fail(
+        "The other device did not complete the handshake. Check the pairing code and that both devices run the same version of Stellar Clash.",
+      )
+    }, HANDSHAKE_TIMEOUT_MS)
+
+    this.transport.send({
+      type: "hello",
+      protocolVersion: PROTOCOL_VERSION,
+      buildId: BUILD_ID,
+      playerId,
+      callsign: this.profile.callsign,
+      ship: this.profile.ship,
+      features: this.spectator ? [...SUPPORTED_FEATURES, SPECTATOR_FEATURE] : [...SUPPORTED_FEATURES],
+    })
+    this.proposeSettings()
+  }
+
+  /**
+   * Stops listening to the transport; pending handlers are not called anymore
+   */
+  dispose() {
+    this.finished = true
+    this.clearTimeout()
+    this.unsubscribe()
+  }
+
+  private handleMessage(data: NetworkGameData) {
+    if (this.finished) return
+    if (data.type !== "hello" && data.type !== "matchSettings" && data.type !== "matchSettingsAccepted") return
+
+    // Transports hand over unvalidated data; a hello we cannot parse comes from an incompatible build
+    const message = parseNetworkGameData(data)
+    if (!message) {
+      this.fail("The other device is running an incompatible version of Stellar Clash.")
+      return
+    }
+
+    switch (message.type) {
+      case "hello":
+        this.handleHello(message)
+        break
+      case "matchSettings": {
+        if (this.role !== "client" || !this.peer) break
+        this.settings = { durationSeconds: message.durationSeconds, winScore: message.winScore }
+        this.transport.send({ type: "matchSettingsAccepted", ...this.settings })
+        this.complete()
+        break
+      }
+      case "matchSettingsAccepted": {
+        if (this.role !== "host" || !this.peer) break
+        if (
+          message.durationSeconds !== this.settings.durationSeconds ||
+          message.winScore !== this.settings.winScore
+        ) {
+          this.fail("The other device did not agree to the match settings.")
+          break
+        }
+        this.complete()
+        break
+      }
+    }
+  }
+
+  private handleHello(hello: Hello) {
+    if (hello.protocolVersion !== PROTOCOL_VERSION) {
+      this.fail(
+        `Incompatible game versions: this device speaks protocol v${PROTOCOL_VERSION} (build ${BUILD_ID}), ` +
+          `the other device v${hello.protocolVersion} (build ${hello.buildId}). Update both to the same release.`,
+      )
+      return
+    }
+    if (hello.buildId !== BUILD_ID) {
+      console.info(`Peer runs build ${hello.buildId}, this device runs ${BUILD_ID}; protocol versions match`)
+    }
+
+    this.peer = {
+      playerId: hello.playerId,
+      buildId: hello.buildId,
+      callsign: hello.callsign,
+      ship: hello.ship,
+      features: hello.features,
+      spectator: hello.features.includes(SPECTATOR_FEATURE),
+    }
+    this.proposeSettings()
+  }
+
+  /**
+   * Host only: sends the match settings once our hello is out and the client's hello has arrived,
+   * so the client never sees settings before knowing who proposed them
+   */
+  private proposeSettings() {
+    if (this.role !== "host" || this.proposed || !this.playerId || !this.peer) return
+    this.proposed = true
+    this.transport.send({ type: "matchSettings", ...this.settings })
+  }
+
+  private complete() {
+    const peer = this.peer
+    if (!peer) return
+
+    this.finished = true
+    this.clearTimeout()
+    const session: SessionInfo = {
+      peer,
+      features: SUPPORTED_FEATURES.filter((feature) => peer.features.includes(feature)),
+      settings: { ...this.settings },
+    }
+    this.readyHandlers.forEach((handler) => handler(session))
+  }
+
+  private fail(reason: string) {
+    if (this.finished) return
+    this.finished = true
+    this.clearTimeout()
+    this.failedHandlers.forEach((handler) => handler(reason))
+  }
+
+  private clearTimeout() {
+    if (this.timeout) {
+      clearTimeout(this.timeout)
+      this.timeout = null
+    }
+  }
+}
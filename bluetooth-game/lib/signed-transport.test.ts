@@ -0,0 +1,147 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest"
+import type { GameMessage, NetworkGameData } from "./game-engine"
+import { createLoopbackPair } from "./loopback-transport"
+import { SignedTransport, deriveSessionKey } from "./signed-transport"
+
+type Signed = Extract<NetworkGameData, { type: "signed" }>
+
+const request = (reason: string): GameMessage => ({ type: "snapshotRequest", reason })
+
+/** Lets loopback deliveries and WebCrypto settle */
+const settle = () => new Promise((resolve) => setTimeout(resolve, 20))
+
+let key: CryptoKey
+let otherKey: CryptoKey
+
+beforeAll(async () => {
+  key = await deriveSessionKey("123456")
+  otherKey = await deriveSessionKey("654321")
+})
+
+/**
+ * A host that signs messages onto a link where they are only recorded, and a client that
+ * receives whatever the test injects on its own link: genuine messages, altered ones or replays
+ */
+async function createLink(hostKey = key) {
+  const [hostEnd, recorderEnd] = createLoopbackPair()
+  const host = new SignedTransport(hostEnd, hostKey)
+  const sent: Signed[] = []
+  recorderEnd.onMessage((data) => {
+    if (data.type === "signed") sent.push(data)
+  })
+  await recorderEnd.connect("client")
+  await host.connect("host")
+
+  const [injector, clientEnd] = createLoopbackPair()
+  const client = new SignedTransport(clientEnd, key)
+  const received: NetworkGameData[] = []
+  const errors: string[] = []
+  client.onMessage((data) => received.push(data))
+  client.onError((error) => errors.push(error))
+  await injector.connect("host")
+  await client.connect("client")
+
+  /** Signs messages on the host and returns what went over the air */
+  const sign = async (...messages: GameMessage[]): Promise<Signed[]> => {
+    const from = sent.length
+    await Promise.all(messages.map((message) => host.send(message)))
+    await settle()
+    return sent.slice(from)
+  }
+  /** Hands raw messages to the client as if they came over its link */
+  const inject = async (...messages: NetworkGameData[]) => {
+    for (const message of messages) await injector.send(message)
+    await settle()
+  }
+  return { client, sign, inject, received, errors }
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "warn").mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe("SignedTransport", () => {
+  it("delivers messages signed with the pairing key", async () => {
+    const { sign, inject, received, errors } = await createLink()
+    await inject(...(await sign(request("a"), request("b"))))
+
+    expect(received).toEqual([request("a"), request("b")])
+    expect(errors).toEqual([])
+  })
+
+  it("drops a message whose MAC was altered and tells the user once", async () => {
+    const { sign, inject, received, errors } = await createLink()
+    const [first, second] = await sign(request("a"), request("b"))
+    const flip = (message: Signed): Signed => ({ ...message, mac: message.mac.map((byte, i) => (i === 0 ? byte ^ 1 : byte)) })
+    await inject(flip(first), flip(second))
+
+    expect(received).toEqual([])
+    expect(errors).toHaveLength(1)
+  })
+
+  it("drops a message whose content was altered after signing", async () => {
+    const { sign, inject, received } = await createLink()
+    const [message] = await sign(request("a"))
+    await inject({ ...message, message: request("b") })
+
+    expect(received).toEqual([])
+  })
+
+  it("drops unsigned messages", async () => {
+    const { inject, received, errors } = await createLink()
+    await inject(request("a"))
+
+    expect(received).toEqual([])
+    expect(errors).toHaveLength(1)
+  })
+
+  it("drops messages signed with a different pairing code", async () => {
+    const { sign, inject, received } = await createLink(otherKey)
+    await inject(...(await sign(request("a"))))
+
+    expect(received).toEqual([])
+  })
+
+  it("drops a message reflected back to its sender", async () => {
+    const { client, inject, received } = await createLink()
+    // Sign a message as the client, then hand it back to the client
+    const own: Signed[] = []
+    const [clientOut, clientIn] = createLoopbackPair()
+    clientIn.onMessage((data) => {
+      if (data.type === "signed") own.push(data)
+    })
+    const signer = new SignedTransport(clientOut, key)
+    await clientIn.connect("host")
+    await signer.connect("client")
+    await signer.send(request("a"))
+    await settle()
+    await inject(...own)
+
+    expect(own).toHaveLength(1)
+    expect(received).toEqual([])
+    expect(client.isConnected()).toBe(true)
+  })
+
+  it("drops a replayed counter", async () => {
+    const { sign, inject, received } = await createLink()
+    const [message] = await sign(request("a"))
+    await inject(message, message)
+    await inject(message)
+
+    expect(received).toEqual([request("a")])
+  })
+
+  it("accepts counters that arrive out of order within the replay window", async () => {
+    const { sign, inject, received } = await createLink()
+    const messages = await sign(...Array.from({ length: 70 }, (_, i) => request(`${i}`)))
+    const [oldest, inWindow, newest] = [messages[0], messages[40], messages[69]]
+    await inject(newest, inWindow, oldest)
+
+    // 64 counters behind the newest one are accepted; the oldest is too far back to tell from a replay
+    expect(received).toEqual([request("69"), request("40")])
+  })
+})
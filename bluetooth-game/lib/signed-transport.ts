@@ -0,0 +1,221 @@
+import { parseNetworkGameData } from "./game-engine"
+import type { NetworkGameData } from "./game-engine"
+import type { ClockSyncStats } from "./clock-sync"
+import type { BandwidthStats } from "./bandwidth-meter"
+import type { ConnectionState, GameTransport, TransportRole } from "./transport"
+import { encodeMessage } from "./wire-codec"
+
+type SignablePayload = Exclude<NetworkGameData, { type: "signed" }>
+
+/** Number of digits in a pairing code */
+export const PAIRING_CODE_LENGTH = 6
+
+const MAC_LENGTH = 16                 // HMAC-SHA256 truncated to 128 bits to save airtime
+const KEY_DERIVATION_ITERATIONS = 100000
+const KEY_DERIVATION_SALT = "stellar-clash-pairing-v1"
+const REPLAY_WINDOW = 64              // Out-of-order counters accepted behind the newest one
+
+const textEncoder = new TextEncoder()
+
+/**
+ * Generates a random numeric pairing code for the host to display
+ * @returns A code of PAIRING_CODE_LENGTH digits
+ */
+export function generatePairingCode(): string {
+  const [value] = crypto.getRandomValues(new Uint32Array(1))
+  return (value % 10 ** PAIRING_CODE_LENGTH).toString().padStart(PAIRING_CODE_LENGTH, "0")
+}
+
+/**
+ * Derives the HMAC key both peers sign messages with from the pairing code. PBKDF2 makes
+ * guessing codes offline from captured traffic expensive.
+ * @param code The pairing code shown by the host and entered by the joiner
+ * @returns An HMAC-SHA256 key usable with SignedTransport
+ */
+export async function deriveSessionKey(code: string): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey("raw", textEncoder.encode(code), "PBKDF2", false, ["deriveKey"])
+  return crypto.subtle.deriveKey(
+    {
+      name: "PBKDF2",
+      salt: textEncoder.encode(KEY_DERIVATION_SALT),
+      iterations: KEY_DERIVATION_ITERATIONS,
+      hash: "SHA-256",
+    },
+    material,
+    { name: "HMAC", hash: "SHA-256", length: 256 },
+    false,
+    ["sign"],
+  )
+}
+
+/**
+ * GameTransport decorator that authenticates every message with an HMAC derived from the
+ * pairing code. Outgoing messages are wrapped in "signed" messages carrying a counter and MAC;
+ * incoming messages that are unsigned, replayed or fail verification are dropped, so
+ * GameEngine.handleNetworkUpdate only ever sees messages from the paired device.
+ *
+ * The MAC covers the sender's role, the counter and the wire encoding of the message, so a
+ * message cannot be reflected back to its sender or replayed later. Ping/pong clock sync is
+ * answered by the inner transport and stays unauthenticated; it only affects link statistics.
+ */
+export class SignedTransport implements GameTransport {
+  private messageHandlers: Set<(data: NetworkGameData) => void> = new Set()
+  private errorHandlers: Set<(error: string) => void> = new Set()
+  private role: TransportRole = "client"
+  private sendCounter = 0
+  private highestReceived = 0
+  private recentCounters: Set<number> = new Set()
+  // WebCrypto is asynchronous; queues keep messages in the order they were sent and received
+  private sendQueue: Promise<void> = Promise.resolve()
+  private receiveQueue: Promise<void> = Promise.resolve()
+  private reportedRejection = false
+
+  constructor(
+    private readonly inner: GameTransport,
+    private readonly key: CryptoKey,
+  ) {
+    inner.onMessage((data) => {
+      this.receiveQueue = this.receiveQueue.then(() => this.verify(data))
+    })
+  }
+
+  async connect(role: TransportRole): Promise<string> {
+    this.role = role
+    this.sendCounter = 0
+    this.highestReceived = 0
+    this.recentCounters.clear()
+    this.reportedRejection = false
+    return this.inner.connect(role)
+  }
+
+  send(data: NetworkGameData): Promise<void> {
+    if (data.type === "signed") {
+      return this.inner.send(data)
+    }
+
+    const counter = ++this.sendCounter
+    const send = this.sendQueue.then(async () => {
+      const mac = await this.computeMac(this.role, counter, data)
+      await this.inner.send({ type: "signed", counter, mac, message: data })
+    })
+    this.sendQueue = send.catch(() => {
+      // Keep the queue usable; the caller sees the rejection
+    })
+
+    return send
+  }
+
+  onMessage(handler: (data: NetworkGameData) => void): () => void {
+    this.messageHandlers.add(handler)
+    return () => this.messageHandlers.delete(handler)
+  }
+
+  onStateChange(handler: (state: ConnectionState) => void): () => void {
+    return this.inner.onStateChange(handler)
+  }
+
+  onError(handler: (error: string) => void): () => void {
+    this.errorHandlers.add(handler)
+    const unsubscribeInner = this.inner.onError(handler)
+    return () => {
+      this.errorHandlers.delete(handler)
+      unsubscribeInner()
+    }
+  }
+
+  disconnect() {
+    this.inner.disconnect()
+  }
+
+  isConnected(): boolean {
+    return this.inner.isConnected()
+  }
+
+  getNetworkStats(): ClockSyncStats {
+    return this.inner.getNetworkStats()
+  }
+
+  getBandwidthStats(): BandwidthStats {
+    return this.inner.getBandwidthStats()
+  }
+
+  now(): number {
+    return this.inner.now()
+  }
+
+  private async computeMac(sender: TransportRole, counter: number, message: SignablePayload): Promise<number[]> {
+    const body = encodeMessage(message)
+    const signed = new Uint8Array(9 + body.length)
+    signed[0] = sender === "host" ? 1 : 2
+    new DataView(signed.buffer).setFloat64(1, counter, true)
+    signed.set(body, 9)
+
+    const signature = await crypto.subtle.sign("HMAC", this.key, signed)
+    return Array.from(new Uint8Array(signature, 0, MAC_LENGTH))
+  }
+
+  private async verify(data: NetworkGameData) {
+    const parsed = data.type === "signed" ? parseNetworkGameData(data) : null
+    if (!parsed || parsed.type !== "signed") {
+      this.reject(data.type)
+      return
+    }
+    // Duplicates and replays are dropped quietly; lossy links produce them on their own
+    if (!this.isFresh(parsed.counter)) return
+
+    const sender: TransportRole = this.role === "host" ? "client" : "host"
+    let expected: number[]
+    try {
+      expected = await this.computeMac(sender, parsed.counter, parsed.message)
+    } catch (error) {
+      console.warn("Could not verify message:", error)
+      return
+    }
+    if (!macsEqual(expected, parsed.mac)) {
+      this.reject(parsed.message.type)
+      return
+    }
+
+    this.remember(parsed.counter)
+    this.messageHandlers.forEach((handler) => handler(parsed.message))
+  }
+
+  private isFresh(counter: number): boolean {
+    return counter > this.highestReceived - REPLAY_WINDOW && !this.recentCounters.has(counter)
+  }
+
+  private remember(counter: number) {
+    this.recentCounters.add(counter)
+    if (counter <= this.highestReceived) return
+
+    this.highestReceived = counter
+    this.recentCounters.forEach((seen) => {
+      if (seen <= counter - REPLAY_WINDOW) this.recentCounters.delete(seen)
+    })
+  }
+
+  /**
+   * Drops a message that failed authentication, telling the user once per connection
+   */
+  private reject(type: string) {
+    console.warn(`Dropped unauthenticated ${type} message`)
+    if (this.reportedRejection) return
+
+    this.reportedRejection = true
+    this.errorHandlers.forEach((handler) =>
+      handler("Ignored a message that was not signed with this match's pairing code. Check that both devices use the same code."),
+    )
+  }
+}
+
+/**
+ * Compares two MACs without exiting early on the first differing byte
+ */
+function macsEqual(a: number[], b: number[]): boolean {
+  if (a.length !== b.length) return false
+  let difference = 0
+  for (let i = 0; i < a.length; i++) {
+    difference |= a[i] ^ b[i]
+  }
+  return difference === 0
+}
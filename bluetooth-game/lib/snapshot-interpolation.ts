@@ -0,0 +1,222 @@
+import type { Vector2D } from "./game-engine"
+
+/**
+ * State of a remote entity at a point in time, as received from the network
+ */
+export interface EntitySnapshot {
+  time: number              // Timestamp in milliseconds
+  position: Vector2D        // Position at that time
+  velocity: Vector2D        // Velocity in pixels per frame at 60 fps (same units as GameObject.velocity)
+  rotation: number          // Rotation angle in radians
+}
+
+/**
+ * Settings that control how a SnapshotBuffer samples between and beyond buffered states
+ */
+export interface InterpolationOptions {
+  maxExtrapolationMs: number // How far past the newest snapshot to extrapolate before holding still
+  maxSpeed: number          // Velocity cap applied while extrapolating
+  worldWidth: number        // Width of the wrapping world, used to interpolate across screen edges
+  worldHeight: number       // Height of the wrapping world
+}
+
+/** Snapshots kept per entity; at 20 updates per second this covers more than a second */
+const MAX_BUFFERED_SNAPSHOTS = 32
+
+/**
+ * Wraps an angle difference into the range [-PI, PI]
+ * @param angle Angle in radians
+ * @returns The equivalent angle closest to zero
+ */
+export function normalizeAngle(angle: number): number {
+  const turn = Math.PI * 2
+  return angle - turn * Math.floor((angle + Math.PI) / turn)
+}
+
+/**
+ * Interpolates between two angles along the shortest arc
+ * @param from Start angle in radians
+ * @param to End angle in radians
+ * @param t Blend factor between 0 and 1
+ * @returns The blended angle
+ */
+export function lerpAngle(from: number, to: number, t: number): number {
+  return from + normalizeAngle(to - from) * t
+}
+
+/**
+ * Interpolates one coordinate of a wrapping world, crossing the edge when that is the shorter way
+ * @private
+ */
+function lerpWrapped(from: number, to: number, t: number, size: number): number {
+  let delta = to - from
+  if (delta > size / 2) delta -= size
+  if (delta < -size / 2) delta += size
+
+  const value = from + delta * t
+  return ((value % size) + size) % size
+}
+
+/**
+ * Time-ordered buffer of snapshots for one remote entity. Rendering samples it slightly in the
+ * past so there is usually a newer snapshot to blend towards; when packets are late it
+ * extrapolates from the newest snapshot for a limited time.
+ */
+export class SnapshotBuffer {
+  private snapshots: EntitySnapshot[] = []
+  private options: InterpolationOptions
+
+  constructor(options: InterpolationOptions) {
+    this.options = options
+  }
+
+  /**
+   * Adds a snapshot, keeping the buffer ordered by time
+   * @param snapshot The received state
+   */
+  push(snapshot: EntitySnapshot) {
+    let index = this.snapshots.length
+    while (index > 0 && this.snapshots[index - 1].time > snapshot.time) {
+      index--
+    }
+    this.snapshots.splice(index, 0, snapshot)
+
+    if (this.snapshots.length > MAX_BUFFERED_SNAPSHOTS) {
+      this.snapshots.shift()
+    }
+  }
+
+  /**
+   * Computes the entity's state at the given time
+   * @param time Render time in milliseconds (normally now minus the interpolation delay)
+   * @returns The interpolated or extrapolated position and rotation, or null if nothing was received yet
+   */
+  sample(time: number): { position: Vector2D; rotation: number } | null {
+    if (this.snapshots.length === 0) return null
+
+    const oldest = this.snapshots[0]
+    if (time <= oldest.time) {
+      return { position: { ...oldest.position }, rotation: oldest.rotation }
+    }
+
+    const newest = this.snapshots[this.snapshots.length - 1]
+    if (time >= newest.time) {
+      return this.extrapolate(newest, time)
+    }
+
+    // Find the pair of snapshots surrounding the render time
+    let next = 1
+    while (this.snapshots[next].time < time) {
+      next++
+    }
+    const from = this.snapshots[next - 1]
+    const to = this.snapshots[next]
+    const span = to.time - from.time
+    const t = span > 0 ? (time - from.time) / span : 1
+
+    // Older snapshots are no longer needed once the render time has moved past them
+    this.snapshots.splice(0, next - 1)
+
+    return {
+      position: {
+        x: lerpWrapped(from.position.x, to.position.x, t, this.options.worldWidth),
+        y: lerpWrapped(from.position.y, to.position.y, t, this.options.worldHeight),
+      },
+      rotation: lerpAngle(from.rotation, to.rotation, t),
+    }
+  }
+
+  clear() {
+    this.snapshots = []
+  }
+
+  private extrapolate(snapshot: EntitySnapshot, time: number): { position: Vector2D; rotation: number } {
+    const elapsed = Math.min(time - snapshot.time, this.options.maxExtrapolationMs) / 1000
+
+    let { x: vx, y: vy } = snapshot.velocity
+    const speed = Math.sqrt(vx * vx + vy * vy)
+    if (speed > this.options.maxSpeed) {
+      vx *= this.options.maxSpeed / speed
+      vy *= this.options.maxSpeed / speed
+    }
+
+    const { worldWidth, worldHeight } = this.options
+    return {
+      position: {
+        x: (((snapshot.position.x + vx * elapsed * 60) % worldWidth) + worldWidth) % worldWidth,
+        y: (((snapshot.position.y + vy * elapsed * 60) % worldHeight) + worldHeight) % worldHeight,
+      },
+      rotation: snapshot.rotation,
+    }
+  }
+}
+
+/**
+ * Settings for a PositionHistory
+ */
+export interface PositionHistoryOptions {
+  maxAgeMs: number          // How far back positions are kept
+  worldWidth: number        // Width of the wrapping world, used to interpolate across screen edges
+  worldHeight: number       // Height of the wrapping world
+}
+
+/**
+ * Recent positions of one ship as the host simulated them, for looking up where it was a moment
+ * ago (lag compensation). Unlike SnapshotBuffer.sample, lookups never discard entries, so several
+ * shooters can rewind the same ship to different times in one frame.
+ */
+export class PositionHistory {
+  private entries: { time: number; position: Vector2D }[] = []
+  private options: PositionHistoryOptions
+
+  constructor(options: PositionHistoryOptions) {
+    this.options = options
+  }
+
+  /**
+   * Appends the ship's position at the given time, dropping entries older than maxAgeMs
+   * @param time Host clock time in milliseconds; must not go backwards
+   * @param position Position at that time
+   */
+  record(time: number, position: Vector2D) {
+    this.entries.push({ time, position: { ...position } })
+
+    // Keep one entry at or before the cutoff so lookups right at the limit can still interpolate
+    const cutoff = time - this.options.maxAgeMs
+    while (this.entries.length > 2 && this.entries[1].time <= cutoff) {
+      this.entries.shift()
+    }
+  }
+
+  /**
+   * Computes where the ship was at the given time
+   * @param time Host clock time in milliseconds
+   * @returns The interpolated position, clamped to the recorded range, or null if nothing was recorded
+   */
+  positionAt(time: number): Vector2D | null {
+    if (this.entries.length === 0) return null
+
+    const oldest = this.entries[0]
+    if (time <= oldest.time) return { ...oldest.position }
+    const newest = this.entries[this.entries.length - 1]
+    if (time >= newest.time) return { ...newest.position }
+
+    let next = 1
+    while (this.entries[next].time < time) {
+      next++
+    }
+    const from = this.entries[next - 1]
+    const to = this.entries[next]
+    const span = to.time - from.time
+    const t = span > 0 ? (time - from.time) / span : 1
+
+    return {
+      x: lerpWrapped(from.position.x, to.position.x, t, this.options.worldWidth),
+      y: lerpWrapped(from.position.y, to.position.y, t, this.options.worldHeight),
+    }
+  }
+
+  clear() {
+    this.entries = []
+  }
+}
@@ -0,0 +1,44 @@
+import type { PlayerState } from "./game-engine"
+import { POSITION_SCALE, STAT_SCALE, quantize } from "./wire-codec"
+
+/**
+ * The part of the world peers compare to detect a desync
+ */
+export interface ChecksumInput {
+  players: Pick<PlayerState, "playerId" | "position" | "health" | "score">[]
+  asteroidCount: number     // Active asteroids
+}
+
+const FNV_OFFSET_BASIS = 0x811c9dc5
+const FNV_PRIME = 0x01000193
+
+/**
+ * Hashes the state with 32-bit FNV-1a. Values are reduced to exactly what the wire codec sends
+ * (the quantized integers of positions and health, the 32-bit float of the score), so the host's
+ * full-precision state and a client's decoded copy hash alike. Players are sorted so both peers
+ * hash them in the same order.
+ * @param input The state to hash
+ * @returns An unsigned 32-bit hash
+ */
+export function computeStateChecksum(input: ChecksumInput): number {
+  const players = [...input.players].sort((a, b) => (a.playerId < b.playerId ? -1 : a.playerId > b.playerId ? 1 : 0))
+  const text = players
+    .map((p) =>
+      [
+        p.playerId,
+        quantize(p.position.x, POSITION_SCALE),
+        quantize(p.position.y, POSITION_SCALE),
+        quantize(p.health, STAT_SCALE),
+        Math.fround(p.score),
+      ].join(","),
+    )
+    .concat(String(input.asteroidCount))
+    .join(";")
+
+  let hash = FNV_OFFSET_BASIS
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, FNV_PRIME)
+  }
+  return hash >>> 0
+}
@@ -0,0 +1,154 @@
+import type { NetworkGameData } from "./game-engine"
+import { ClockSync, ClockSyncStats } from "./clock-sync"
+import { BandwidthMeter, BandwidthStats } from "./bandwidth-meter"
+
+/**
+ * Connection lifecycle reported by every transport
+ */
+export type ConnectionState = "disconnected" | "connecting" | "connected" | "reconnecting"
+
+/**
+ * Which side of a match a transport connects as
+ */
+export type TransportRole = "host" | "client"
+
+/**
+ * Common interface for anything that can carry NetworkGameData between peers
+ * (Bluetooth, loopback, relays, ...). The page and game engine only talk to this.
+ */
+export interface GameTransport {
+  /** Establishes the connection and resolves with the local player's id */
+  connect(role: TransportRole): Promise<string>
+  /** Sends a message to the connected peer(s); rejects with MessageTooLargeError if it can never fit the link */
+  send(data: NetworkGameData): Promise<void>
+  /** Subscribes to incoming messages; returns an unsubscribe function */
+  onMessage(handler: (data: NetworkGameData) => void): () => void
+  /** Subscribes to connection state changes; returns an unsubscribe function */
+  onStateChange(handler: (state: ConnectionState) => void): () => void
+  /** Subscribes to non-fatal transport errors; returns an unsubscribe function */
+  onError(handler: (error: string) => void): () => void
+  /** Tears down the connection and reports "disconnected" */
+  disconnect(): void
+  isConnected(): boolean
+  /** Round-trip time, clock offset and jitter measured with ping/pong */
+  getNetworkStats(): ClockSyncStats
+  /** Bytes and packets per second on the underlying link */
+  getBandwidthStats(): BandwidthStats
+  /** Current time on the host's clock in milliseconds, shared by every peer in the match */
+  now(): number
+}
+
+/**
+ * Rejection of a message too large for the link to ever carry. Resending it cannot succeed, so
+ * senders drop it instead of retrying.
+ */
+export class MessageTooLargeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "MessageTooLargeError"
+  }
+}
+
+/** How often connected transports ping their peer to measure the link */
+const CLOCK_SYNC_INTERVAL_MS = 1000
+
+/**
+ * Shared listener bookkeeping for GameTransport implementations.
+ * Subclasses implement the connection itself and call the emit helpers.
+ */
+export abstract class BaseTransport implements GameTransport {
+  private messageHandlers: Set<(data: NetworkGameData) => void> = new Set()
+  private stateHandlers: Set<(state: ConnectionState) => void> = new Set()
+  private errorHandlers: Set<(error: string) => void> = new Set()
+  private clockSyncInterval: ReturnType<typeof setInterval> | null = null
+  protected readonly clockSync = new ClockSync()
+  protected readonly bandwidth = new BandwidthMeter() // Subclasses record what they write and read
+  protected role: TransportRole = "client"   // Set by subclasses when connecting
+
+  abstract connect(role: TransportRole): Promise<string>
+  abstract send(data: NetworkGameData): Promise<void>
+  abstract disconnect(): void
+  abstract isConnected(): boolean
+
+  onMessage(handler: (data: NetworkGameData) => void): () => void {
+    this.messageHandlers.add(handler)
+    return () => this.messageHandlers.delete(handler)
+  }
+
+  onStateChange(handler: (state: ConnectionState) => void): () => void {
+    this.stateHandlers.add(handler)
+    return () => this.stateHandlers.delete(handler)
+  }
+
+  onError(handler: (error: string) => void): () => void {
+    this.errorHandlers.add(handler)
+    return () => this.errorHandlers.delete(handler)
+  }
+
+  getNetworkStats(): ClockSyncStats {
+    return this.clockSync.getStats()
+  }
+
+  getBandwidthStats(): BandwidthStats {
+    return this.bandwidth.getStats()
+  }
+
+  now(): number {
+    return this.role === "host" ? Date.now() : this.clockSync.remoteNow()
+  }
+
+  /**
+   * Delivers a received message to subscribers. Ping/pong traffic is answered and consumed here.
+   */
+  protected emitMessage(data: NetworkGameData) {
+    if (data.type === "ping") {
+      this.sendClockSync(this.clockSync.createPong(data))
+      return
+    }
+    if (data.type === "pong") {
+      this.clockSync.handlePong(data)
+      return
+    }
+
+    this.messageHandlers.forEach((handler) => handler(data))
+  }
+
+  /**
+   * Reports a connection state change to subscribers and starts or stops clock synchronization
+   */
+  protected emitStateChange(state: ConnectionState) {
+    if (state === "connected") {
+      this.startClockSync()
+    } else {
+      this.stopClockSync()
+    }
+
+    this.stateHandlers.forEach((handler) => handler(state))
+  }
+
+  private startClockSync() {
+    this.stopClockSync()
+    this.clockSync.reset()
+    this.sendClockSync(this.clockSync.createPing())
+    this.clockSyncInterval = setInterval(() => {
+      this.sendClockSync(this.clockSync.createPing())
+    }, CLOCK_SYNC_INTERVAL_MS)
+  }
+
+  private sendClockSync(data: NetworkGameData) {
+    this.send(data).catch(() => {
+      // A lost sample only delays the estimate; a broken link is reported by game traffic
+    })
+  }
+
+  private stopClockSync() {
+    if (this.clockSyncInterval) {
+      clearInterval(this.clockSyncInterval)
+      this.clockSyncInterval = null
+    }
+  }
+
+  protected emitError(error: string) {
+    this.errorHandlers.forEach((handler) => handler(error))
+  }
+}
@@ -0,0 +1,352 @@
+import { NetworkGameData } from "./game-engine"
+import { isReliableMessageType } from "./reliable-channel"
+import { BaseTransport, TransportRole } from "./transport"
+import { decodeMessage, encodeMessage } from "./wire-codec"
+
+/** Prefixes of signaling codes: deflate-compressed or plain JSON, both base64url-encoded */
+const COMPRESSED_SIGNAL_PREFIX = "SCz"
+const PLAIN_SIGNAL_PREFIX = "SCj"
+
+/** Longest wait for ICE candidates before the description is handed out with those found so far */
+const ICE_GATHERING_TIMEOUT_MS = 3000
+
+/**
+ * Settings for a WebRTC link
+ */
+export interface WebRtcTransportOptions {
+  iceServers?: RTCIceServer[]   // STUN/TURN servers; none by default, which works on one machine and most LANs
+}
+
+type SignalType = "offer" | "answer"
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ""
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"))
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+async function pipeThrough(
+  bytes: Uint8Array<ArrayBuffer>,
+  stream: CompressionStream | DecompressionStream,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream)
+  return new Uint8Array(await new Response(output).arrayBuffer())
+}
+
+/**
+ * Packs a session description into a code short enough to paste into a chat message
+ * @param description The local offer or answer, with its ICE candidates
+ * @returns A single-line code
+ */
+async function encodeSignal(description: RTCSessionDescriptionInit): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify({ type: description.type, sdp: description.sdp }))
+  if (typeof CompressionStream === "undefined") {
+    return PLAIN_SIGNAL_PREFIX + toBase64Url(json)
+  }
+  return COMPRESSED_SIGNAL_PREFIX + toBase64Url(await pipeThrough(json, new CompressionStream("deflate-raw")))
+}
+
+/**
+ * Unpacks a code produced by encodeSignal
+ * @throws Error if the code is not a Stellar Clash signaling code
+ */
+async function decodeSignal(code: string): Promise<RTCSessionDescriptionInit> {
+  const text = code.replace(/\s+/g, "")
+  const prefix = text.slice(0, 3)
+  if (prefix !== COMPRESSED_SIGNAL_PREFIX && prefix !== PLAIN_SIGNAL_PREFIX) {
+    throw new Error("That is not a Stellar Clash connection code.")
+  }
+
+  try {
+    let json = fromBase64Url(text.slice(3))
+    if (prefix === COMPRESSED_SIGNAL_PREFIX) {
+      json = await pipeThrough(json, new DecompressionStream("deflate-raw"))
+    }
+    const description = JSON.parse(new TextDecoder().decode(json)) as RTCSessionDescriptionInit
+    if ((description.type !== "offer" && description.type !== "answer") || typeof description.sdp !== "string") {
+      throw new Error("missing session description")
+    }
+    return description
+  } catch {
+    throw new Error("The connection code is incomplete or damaged. Copy it again in full.")
+  }
+}
+
+/**
+ * GameTransport over WebRTC data channels, with the session descriptions exchanged by hand
+ * (copy and paste) instead of through a signaling server. The host creates an offer, the
+ * joiner answers it, and both sides pass their code to the other with onSignal/acceptSignal.
+ *
+ * Two channels carry the traffic: an unordered one without retransmissions for state that the
+ * next update supersedes (worldDelta, input, clock sync) and an ordered, reliable one for
+ * events. Envelopes from ReliableChannel are routed by their channel, so its retransmissions
+ * rarely kick in; bare messages by their type.
+ */
+export class WebRtcTransport extends BaseTransport {
+  private connection: RTCPeerConnection | null = null
+  private stateChannel: RTCDataChannel | null = null  // Unordered, no retransmits
+  private eventChannel: RTCDataChannel | null = null  // Ordered and reliable
+  private connected = false
+  private signalHandlers: Set<(code: string) => void> = new Set()
+  private remoteSignal: RTCSessionDescriptionInit | null = null
+  private remoteSignalWaiter: ((description: RTCSessionDescriptionInit) => void) | null = null
+  private cancelConnect: ((error: Error) => void) | null = null // Rejects a connect() still in progress
+  private readonly options: WebRtcTransportOptions
+
+  constructor(options: WebRtcTransportOptions = {}) {
+    super()
+    this.options = options
+  }
+
+  /**
+   * Subscribes to this side's connection code: the offer on the host, the answer on a joiner.
+   * It has to reach the other device, e.g. by copy and paste; returns an unsubscribe function.
+   */
+  onSignal(handler: (code: string) => void): () => void {
+    this.signalHandlers.add(handler)
+    return () => this.signalHandlers.delete(handler)
+  }
+
+  /**
+   * Takes the other device's connection code: the joiner's answer on the host, the host's offer
+   * on a joiner. A joiner may pass the offer before calling connect().
+   * @param code The code as shown on the other device
+   * @throws Error with a message for the user if the code is damaged or of the wrong kind
+   */
+  async acceptSignal(code: string): Promise<void> {
+    const description = await decodeSignal(code)
+    const expected: SignalType = this.role === "host" ? "answer" : "offer"
+    if (description.type !== expected) {
+      throw new Error(
+        expected === "answer"
+          ? "That is an offer; paste the answer the other device shows after joining."
+          : "That is an answer; paste the offer shown by the host.",
+      )
+    }
+
+    this.remoteSignal = description
+    this.remoteSignalWaiter?.(description)
+    this.remoteSignalWaiter = null
+  }
+
+  connect(role: TransportRole): Promise<string> {
+    this.role = role
+    this.emitStateChange("connecting")
+
+    return new Promise((resolve, reject) => {
+      this.cancelConnect = reject
+      this.establish(role)
+        .then(() => {
+          this.cancelConnect = null
+          resolve(`${role}_${Date.now()}`)
+        })
+        .catch((error) => {
+          if (!this.cancelConnect) return
+          this.disconnect()
+          reject(error)
+        })
+    })
+  }
+
+  async send(data: NetworkGameData): Promise<void> {
+    const channel = this.channelFor(data)
+    if (!channel || channel.readyState !== "open") return
+
+    let bytes: Uint8Array
+    try {
+      bytes = encodeMessage(data)
+    } catch (error) {
+      this.emitError(`Failed to encode ${data.type} message`)
+      console.error("Encode error:", error)
+      return
+    }
+
+    try {
+      // encodeMessage always allocates a plain ArrayBuffer
+      channel.send(bytes as Uint8Array<ArrayBuffer>)
+      this.bandwidth.recordSent(bytes.length)
+    } catch (error) {
+      this.emitError("Failed to send game data")
+      console.error("Send error:", error)
+    }
+  }
+
+  disconnect(): void {
+    const cancel = this.cancelConnect
+    this.cancelConnect = null
+    cancel?.(new Error("Stopped waiting for the other device"))
+
+    this.stateChannel?.close()
+    this.eventChannel?.close()
+    this.connection?.close()
+    this.stateChannel = null
+    this.eventChannel = null
+    this.connection = null
+    this.connected = false
+    this.remoteSignal = null
+    this.remoteSignalWaiter = null
+    this.emitStateChange("disconnected")
+  }
+
+  isConnected(): boolean {
+    return this.connected
+  }
+
+  /**
+   * Runs the offer/answer exchange for the given role and waits until both channels are open
+   * @private
+   */
+  private async establish(role: TransportRole) {
+    const connection = new RTCPeerConnection({ iceServers: this.options.iceServers ?? [] })
+    this.connection = connection
+    connection.onconnectionstatechange = () => this.handleConnectionState(connection)
+
+    if (role === "host") {
+      this.attachChannels(
+        connection.createDataChannel("state", { ordered: false, maxRetransmits: 0 }),
+        connection.createDataChannel("events", { ordered: true }),
+      )
+      await connection.setLocalDescription(await connection.createOffer())
+      await this.publishLocalDescription(connection)
+      await connection.setRemoteDescription(await this.waitForRemoteSignal())
+    } else {
+      const channels: Map<string, RTCDataChannel> = new Map()
+      connection.ondatachannel = (event) => {
+        channels.set(event.channel.label, event.channel)
+        const state = channels.get("state")
+        const events = channels.get("events")
+        if (state && events) this.attachChannels(state, events)
+      }
+      await connection.setRemoteDescription(await this.waitForRemoteSignal())
+      await connection.setLocalDescription(await connection.createAnswer())
+      await this.publishLocalDescription(connection)
+    }
+
+    await this.waitForChannels()
+  }
+
+  /**
+   * Waits for ICE gathering (candidates are not trickled; the code carries all of them) and
+   * hands the local description to the signal handlers
+   * @private
+   */
+  private async publishLocalDescription(connection: RTCPeerConnection) {
+    if (connection.iceGatheringState !== "complete") {
+      await new Promise<void>((resolve) => {
+        const timeout = setTimeout(resolve, ICE_GATHERING_TIMEOUT_MS)
+        connection.onicegatheringstatechange = () => {
+          if (connection.iceGatheringState !== "complete") return
+          clearTimeout(timeout)
+          resolve()
+        }
+      })
+    }
+
+    const description = connection.localDescription
+    if (!description) throw new Error("Could not create a WebRTC session description")
+    const code = await encodeSignal(description)
+    this.signalHandlers.forEach((handler) => handler(code))
+  }
+
+  private waitForRemoteSignal(): Promise<RTCSessionDescriptionInit> {
+    if (this.remoteSignal) return Promise.resolve(this.remoteSignal)
+    return new Promise((resolve) => {
+      this.remoteSignalWaiter = resolve
+    })
+  }
+
+  private attachChannels(state: RTCDataChannel, events: RTCDataChannel) {
+    this.stateChannel = state
+    this.eventChannel = events
+    ;[state, events].forEach((channel) => {
+      channel.binaryType = "arraybuffer"
+      channel.onmessage = (event: MessageEvent) => this.handleChannelMessage(event)
+      channel.onclose = () => {
+        // Either channel closing means the other side is gone
+        if (this.connected) this.dropConnection()
+      }
+    })
+  }
+
+  private waitForChannels(): Promise<void> {
+    return new Promise((resolve) => {
+      const connection = this.connection
+      const check = () => {
+        // Abandoned by disconnect(); connect() has already been rejected
+        if (this.connection !== connection) {
+          clearInterval(poll)
+          return
+        }
+        if (this.stateChannel?.readyState !== "open" || this.eventChannel?.readyState !== "open") return
+        clearInterval(poll)
+        this.connected = true
+        this.emitStateChange("connected")
+        resolve()
+      }
+      // The joiner's channels only exist once they are announced, so poll instead of listening
+      const poll = setInterval(check, 50)
+      check()
+    })
+  }
+
+  private handleChannelMessage(event: MessageEvent) {
+    try {
+      const bytes = new Uint8Array(event.data as ArrayBuffer)
+      this.bandwidth.recordReceived(bytes.length)
+      // Shape validation happens in GameEngine.handleNetworkUpdate, which treats all input as untrusted
+      this.emitMessage(decodeMessage(bytes))
+    } catch (error) {
+      console.warn("Received malformed game data:", error)
+    }
+  }
+
+  /**
+   * Follows ICE connectivity once connected: "disconnected" is often transient and reported as
+   * reconnecting, "failed" and "closed" end the link
+   * @private
+   */
+  private handleConnectionState(connection: RTCPeerConnection) {
+    if (!this.connected || connection !== this.connection) return
+
+    switch (connection.connectionState) {
+      case "disconnected":
+        this.emitStateChange("reconnecting")
+        break
+      case "connected":
+        this.emitStateChange("connected")
+        break
+      case "failed":
+      case "closed":
+        this.dropConnection()
+        break
+    }
+  }
+
+  private dropConnection() {
+    this.emitError("Lost connection to the other device")
+    this.disconnect()
+  }
+
+  /**
+   * Reliable envelopes and reliable message types use the event channel, everything else the
+   * state channel
+   * @private
+   */
+  private channelFor(data: NetworkGameData): RTCDataChannel | null {
+    const message = data.type === "signed" ? data.message : data
+    let reliable: boolean
+    if (message.type === "envelope") {
+      reliable = message.channel === "reliable"
+    } else {
+      reliable = message.type !== "ping" && message.type !== "pong" && isReliableMessageType(message.type)
+    }
+    return reliable ? this.eventChannel : this.stateChannel
+  }
+}
@@ -0,0 +1,156 @@
+import { spawn, type ChildProcess } from "node:child_process"
+import { connect } from "node:net"
+import { fileURLToPath } from "node:url"
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest"
+import type { GameMessage, NetworkGameData } from "./game-engine"
+import { WebSocketTransport } from "./websocket-transport"
+
+const RELAY_SCRIPT = fileURLToPath(new URL("../scripts/relay-server.mjs", import.meta.url))
+
+const request = (reason: string): GameMessage => ({ type: "snapshotRequest", reason })
+
+let relay: ChildProcess
+let relayPort = 0
+let transports: WebSocketTransport[] = []
+
+/** Starts the relay on a free port and resolves with that port once it listens */
+function startRelay(): Promise<number> {
+  relay = spawn(process.execPath, [RELAY_SCRIPT], {
+    env: { ...process.env, RELAY_PORT: "0", RELAY_HOST: "127.0.0.1" },
+    stdio: ["ignore", "pipe", "inherit"],
+  })
+  return new Promise((resolve, reject) => {
+    relay.once("exit", (code) => reject(new Error(`Relay exited with code ${code}`)))
+    relay.stdout?.on("data", (chunk: Buffer) => {
+      const match = /listening on ws:\/\/[^:]+:(\d+)/.exec(chunk.toString())
+      if (match) resolve(Number(match[1]))
+    })
+  })
+}
+
+/** A transport for the given room, disconnected again after the test */
+function createTransport(room: string): WebSocketTransport {
+  const transport = new WebSocketTransport({ url: `ws://127.0.0.1:${relayPort}`, room })
+  transports.push(transport)
+  return transport
+}
+
+/** Resolves with what a transport receives and the states it goes through */
+function record(transport: WebSocketTransport) {
+  const received: NetworkGameData[] = []
+  const states: string[] = []
+  transport.onMessage((data) => received.push(data))
+  transport.onStateChange((state) => states.push(state))
+  transport.onError(() => {})
+  return { received, states }
+}
+
+/** Resolves true if the promise settles within the given time, false otherwise */
+const settlesWithin = (promise: Promise<unknown>, ms: number) =>
+  Promise.race([promise.then(() => true, () => true), new Promise<boolean>((resolve) => setTimeout(() => resolve(false), ms))])
+
+/** One masked WebSocket frame as a client writes it, filled with a single byte value */
+function clientFrame(opcode: number, fin: boolean, length: number): Buffer {
+  const header = Buffer.from([(fin ? 0x80 : 0) | opcode, 0x80 | 126, length >> 8, length & 0xff])
+  return Buffer.concat([header, Buffer.alloc(4), Buffer.alloc(length, 1)])
+}
+
+/**
+ * Opens a raw connection to the relay, writes the given frames after the handshake and resolves
+ * with the close code the relay answers with, or null if it keeps the connection open
+ */
+function sendRawFrames(frames: Buffer[]): Promise<number | null> {
+  return new Promise((resolve) => {
+    let data = Buffer.alloc(0)
+    const socket = connect(relayPort, "127.0.0.1", () => {
+      socket.write(
+        "GET /?room=RAW1&role=host HTTP/1.1\r\nHost: relay\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n" +
+          "Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==\r\nSec-WebSocket-Version: 13\r\n\r\n",
+      )
+      frames.forEach((frame) => socket.write(frame))
+    })
+    const timer = setTimeout(() => {
+      socket.destroy()
+      resolve(null)
+    }, 1000)
+    socket.on("data", (chunk) => {
+      data = Buffer.concat([data, chunk])
+    })
+    socket.on("error", () => {})
+    socket.on("close", () => {
+      clearTimeout(timer)
+      // The close frame follows the handshake response: two header bytes, then the code
+      const frame = data.subarray(data.indexOf("\r\n\r\n") + 4)
+      resolve(frame.length >= 4 && (frame[0] & 0x0f) === 0x8 ? frame.readUInt16BE(2) : null)
+    })
+  })
+}
+
+beforeAll(async () => {
+  relayPort = await startRelay()
+})
+
+afterAll(() => {
+  relay.kill()
+})
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {})
+})
+
+afterEach(() => {
+  transports.forEach((transport) => transport.disconnect())
+  transports = []
+  vi.restoreAllMocks()
+})
+
+describe("WebSocketTransport over the relay", () => {
+  it("pairs a host and a client in the same room and carries messages both ways", async () => {
+    const host = createTransport("ABCD")
+    const client = createTransport("abcd")
+    const hostLink = record(host)
+    const clientLink = record(client)
+    await Promise.all([host.connect("host"), client.connect("client")])
+
+    expect(host.isConnected()).toBe(true)
+    expect(hostLink.states).toEqual(["connecting", "connected"])
+    await host.send(request("from host"))
+    await client.send(request("from client"))
+    await vi.waitFor(() => {
+      expect(clientLink.received).toEqual([request("from host")])
+      expect(hostLink.received).toEqual([request("from client")])
+    })
+  })
+
+  it("does not pair peers from different rooms", async () => {
+    const host = createTransport("ROOM1")
+    const stranger = createTransport("ROOM2")
+    const hostConnected = host.connect("host")
+    expect(await settlesWithin(stranger.connect("client"), 200)).toBe(false)
+    expect(await settlesWithin(hostConnected, 0)).toBe(false)
+
+    const client = createTransport("ROOM1")
+    await Promise.all([hostConnected, client.connect("client")])
+    expect(client.isConnected()).toBe(true)
+  })
+
+  it("tells the other peer that its partner left", async () => {
+    const host = createTransport("LEFT")
+    const client = createTransport("LEFT")
+    const clientLink = record(client)
+    await Promise.all([host.connect("host"), client.connect("client")])
+
+    host.disconnect()
+    await vi.waitFor(() => expect(clientLink.states.at(-1)).toBe("disconnected"))
+    expect(client.hasPeerLeft()).toBe(true)
+    expect(host.hasPeerLeft()).toBe(false)
+  })
+
+  it("closes a link whose fragmented message adds up to more than the relay accepts", async () => {
+    // Each fragment is within the 64 kB limit for one frame; together they are not
+    const fragments = [clientFrame(0x2, false, 60000), clientFrame(0x0, true, 60000)]
+    expect(await sendRawFrames(fragments)).toBe(1009)
+    // The same amount in one message per frame is fine
+    expect(await sendRawFrames([clientFrame(0x2, true, 60000), clientFrame(0x2, true, 60000)])).toBeNull()
+  })
+})
@@ -0,0 +1,168 @@
+import { NetworkGameData } from "./game-engine"
+import { BaseTransport, TransportRole } from "./transport"
+import { decodeMessage, encodeMessage } from "./wire-codec"
+
+/** Characters used in room codes; no 0/O or 1/I so codes read back unambiguously */
+const ROOM_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"
+
+/** Length of the room codes generated for the relay */
+export const ROOM_CODE_LENGTH = 4
+
+/** Port the relay in scripts/relay-server.mjs listens on unless RELAY_PORT is set */
+export const DEFAULT_RELAY_PORT = 8787
+
+/** Close code the relay sends when the other peer of a link left (CLOSE_PEER_LEFT in the relay) */
+const CLOSE_PEER_LEFT = 4000
+
+/**
+ * Settings for a link through the WebSocket relay
+ */
+export interface WebSocketTransportOptions {
+  url: string    // Relay address, e.g. ws://192.168.1.20:8787
+  room: string   // Room code shared by the host and its clients
+}
+
+/**
+ * Generates a random room code for a host to share with its clients
+ * @returns ROOM_CODE_LENGTH characters from ROOM_CODE_ALPHABET
+ */
+export function generateRoomCode(): string {
+  const values = crypto.getRandomValues(new Uint8Array(ROOM_CODE_LENGTH))
+  return Array.from(values, (value) => ROOM_CODE_ALPHABET[value % ROOM_CODE_ALPHABET.length]).join("")
+}
+
+/**
+ * GameTransport over the local WebSocket relay (scripts/relay-server.mjs). The relay pairs this
+ * link with one peer of the other role in the same room and forwards binary messages between
+ * them, so it carries exactly what BluetoothManager carries, encoded the same way.
+ *
+ * connect() resolves once the relay has paired the link. The link does not reconnect; when the
+ * relay or the other peer goes away the transport reports "disconnected", and hasPeerLeft() tells
+ * the two apart.
+ */
+export class WebSocketTransport extends BaseTransport {
+  private socket: WebSocket | null = null
+  private paired = false
+  private peerLeft = false // The relay closed the link because the other peer left
+  private cancelConnect: ((error: Error) => void) | null = null // Rejects a connect() still waiting to be paired
+  private readonly options: WebSocketTransportOptions
+
+  constructor(options: WebSocketTransportOptions) {
+    super()
+    this.options = options
+  }
+
+  connect(role: TransportRole): Promise<string> {
+    this.role = role
+    this.peerLeft = false
+    this.emitStateChange("connecting")
+
+    return new Promise((resolve, reject) => {
+      const url = new URL(this.options.url)
+      url.searchParams.set("room", this.options.room.toUpperCase())
+      url.searchParams.set("role", role)
+
+      let socket: WebSocket
+      try {
+        socket = new WebSocket(url.toString())
+      } catch (error) {
+        this.emitStateChange("disconnected")
+        reject(error)
+        return
+      }
+      socket.binaryType = "arraybuffer"
+      this.socket = socket
+      this.cancelConnect = reject
+
+      socket.onmessage = (event: MessageEvent) => {
+        if (typeof event.data === "string") {
+          // Control messages from the relay itself
+          if (!this.paired && this.isPairedNotice(event.data)) {
+            this.paired = true
+            this.cancelConnect = null
+            this.emitStateChange("connected")
+            resolve(`${role}_${Date.now()}`)
+          }
+          return
+        }
+
+        try {
+          const bytes = new Uint8Array(event.data as ArrayBuffer)
+          this.bandwidth.recordReceived(bytes.length)
+          // Shape validation happens in GameEngine.handleNetworkUpdate, which treats all input as untrusted
+          this.emitMessage(decodeMessage(bytes))
+        } catch (error) {
+          console.warn("Received malformed game data:", error)
+        }
+      }
+
+      socket.onclose = (event: CloseEvent) => {
+        if (this.socket !== socket) return
+        const wasPaired = this.paired
+        this.release()
+        this.peerLeft = wasPaired && event.code === CLOSE_PEER_LEFT
+        if (wasPaired) {
+          this.emitError("Lost connection to the other device")
+        } else {
+          reject(new Error(`Could not reach the relay at ${this.options.url}`))
+        }
+        this.emitStateChange("disconnected")
+      }
+    })
+  }
+
+  async send(data: NetworkGameData): Promise<void> {
+    const socket = this.socket
+    if (!socket || !this.paired || socket.readyState !== WebSocket.OPEN) return
+
+    let bytes: Uint8Array
+    try {
+      bytes = encodeMessage(data)
+    } catch (error) {
+      this.emitError(`Failed to encode ${data.type} message`)
+      console.error("Encode error:", error)
+      return
+    }
+
+    socket.send(bytes)
+    this.bandwidth.recordSent(bytes.length)
+  }
+
+  disconnect(): void {
+    const socket = this.socket
+    this.cancelConnect?.(new Error("Stopped waiting for the other device"))
+    this.release()
+    socket?.close()
+    this.emitStateChange("disconnected")
+  }
+
+  isConnected(): boolean {
+    return this.paired && this.socket?.readyState === WebSocket.OPEN
+  }
+
+  /**
+   * Whether the last link ended because the other peer left the relay, rather than because this
+   * device lost the relay or disconnected itself
+   */
+  hasPeerLeft(): boolean {
+    return this.peerLeft
+  }
+
+  private isPairedNotice(text: string): boolean {
+    try {
+      return (JSON.parse(text) as { type?: string }).type === "paired"
+    } catch {
+      return false
+    }
+  }
+
+  private release() {
+    if (this.socket) {
+      this.socket.onmessage = null
+      this.socket.onclose = null
+    }
+    this.socket = null
+    this.paired = false
+    this.cancelConnect = null
+  }
+}
@@ -0,0 +1,324 @@
+import { describe, expect, it } from "vitest"
+import type { NetworkGameData } from "./game-engine"
+import { decodeMessage, encodeMessage } from "./wire-codec"
+
+type MessageOf<Type extends NetworkGameData["type"]> = Extract<NetworkGameData, { type: Type }>
+
+const roundTrip = <T extends NetworkGameData>(data: T): T => decodeMessage(encodeMessage(data)) as T
+
+const asteroid = {
+  id: "asteroid_3",
+  position: { x: 412.125, y: 96.5 },
+  velocity: { x: -1.25, y: 0.515625 },
+  rotation: Math.PI / 2,
+  rotationSpeed: 0.0625,
+  size: 30,
+  health: 50,
+}
+
+const powerUp = {
+  id: "powerup_1",
+  position: { x: 200, y: 150 },
+  type: "shield" as const,
+  value: 25,
+  active: false,
+  respawnTime: 7.5,
+  respawnPosition: { x: 640.375, y: 320 },
+}
+
+const player = {
+  playerId: "client_1",
+  position: { x: 123.875, y: 456.25 },
+  velocity: { x: 2.5, y: -0.75 },
+  rotation: Math.PI / 8,
+  health: 87.5,
+  shield: 12.25,
+  energy: 100,
+  score: 300,
+  kills: 3,
+  deaths: 1,
+  weaponCooldown: 0.125,
+  boostCooldown: 1.5,
+  lastInputSeq: 4821,
+}
+
+// One sample per message type; the mapped type makes the compiler flag a type without a sample
+const SAMPLES: { [Type in NetworkGameData["type"]]: MessageOf<Type> } = {
+  ping: { type: "ping", timestamp: 1718000000123.5 },
+  pong: {
+    type: "pong",
+    originTimestamp: 1718000000123.5,
+    receiveTimestamp: 1718000000150.25,
+    transmitTimestamp: 1718000000151,
+  },
+  worldDelta: {
+    type: "worldDelta",
+    tick: 1042,
+    baseTick: 1040,
+    timestamp: 1718000000200,
+    gameTime: 42.5,
+    players: [{ playerId: "client_1", position: { x: 10, y: 20 }, health: 50 }],
+    removedPlayers: ["client_2"],
+    asteroids: [{ id: "asteroid_3", rotation: Math.PI }],
+    removedAsteroids: ["asteroid_7", "asteroid_8"],
+    powerUps: [{ id: "powerup_1", active: true }],
+    removedPowerUps: [],
+  },
+  playerInput: {
+    type: "playerInput",
+    playerId: "client_1",
+    frames: [
+      {
+        seq: 77,
+        dt: 0.0167,
+        thrust: true,
+        reverse: false,
+        rotateLeft: false,
+        rotateRight: true,
+        aimAngle: Math.PI / 8,
+        fire: true,
+        boost: false,
+        viewTime: 1718000000100.5,
+      },
+    ],
+    ackTick: 1040,
+  },
+  projectileFired: {
+    type: "projectileFired",
+    projectileId: "host_1_12",
+    ownerId: "host_1",
+    position: { x: 300.5, y: 200.25 },
+    velocity: { x: 8, y: -8 },
+    rotation: 0,
+  },
+  playerHit: {
+    type: "playerHit",
+    playerId: "client_1",
+    attackerId: "host_1",
+    damage: 20,
+    health: 60,
+    shield: 0,
+  },
+  playerDestroyed: {
+    type: "playerDestroyed",
+    playerId: "client_1",
+    killerId: "host_1",
+    respawnPosition: { x: 700, y: 500 },
+  },
+  powerUpCollected: {
+    type: "powerUpCollected",
+    powerUpId: "powerup_1",
+    playerId: "host_1",
+    respawnTime: 10,
+    respawnPosition: { x: 64, y: 480.5 },
+  },
+  asteroidDestroyed: { type: "asteroidDestroyed", asteroidId: "asteroid_3", fragments: [asteroid] },
+  matchStart: { type: "matchStart", asteroids: [asteroid], powerUps: [powerUp] },
+  matchPaused: { type: "matchPaused", paused: true },
+  matchEnded: { type: "matchEnded", winnerId: "host_1", reason: "scoreLimit" },
+  envelope: {
+    type: "envelope",
+    channel: "reliable",
+    seq: 12,
+    ack: 9,
+    session: 0x1fffff,
+    base: 11,
+    message: { type: "matchPaused", paused: false },
+  },
+  worldSnapshot: {
+    type: "worldSnapshot",
+    reason: "reconnect",
+    world: {
+      gameTime: 61.25,
+      inProgress: true,
+      paused: false,
+      matchResult: null,
+      players: [player],
+      asteroids: [asteroid],
+      powerUps: [powerUp],
+      projectiles: [
+        {
+          id: "host_1_12",
+          ownerId: "host_1",
+          position: { x: 300.5, y: 200.25 },
+          velocity: { x: 8, y: -8 },
+          rotation: Math.PI / 2,
+          damage: 20,
+          lifetime: 1.75,
+        },
+      ],
+    },
+  },
+  hello: {
+    type: "hello",
+    protocolVersion: 8,
+    buildId: "dev",
+    playerId: "client_1",
+    callsign: "Nova",
+    ship: "glacier",
+    features: ["delta", "signed"],
+  },
+  matchSettings: { type: "matchSettings", durationSeconds: 300, winScore: 1000 },
+  matchSettingsAccepted: { type: "matchSettingsAccepted", durationSeconds: 300, winScore: 1000 },
+  signed: {
+    type: "signed",
+    counter: 3,
+    mac: [0, 1, 127, 128, 255],
+    message: { type: "ping", timestamp: 42 },
+  },
+  snapshotRequest: { type: "snapshotRequest", reason: "checksum mismatch" },
+  stateChecksum: { type: "stateChecksum", tick: 1042, hash: 0xffffffff },
+  roster: {
+    type: "roster",
+    players: [
+      { playerId: "host_1", slot: 0, callsign: "Ace", ship: "viper" },
+      { playerId: "client_1", slot: 1, callsign: "Nova", ship: "glacier" },
+    ],
+  },
+  worldAck: { type: "worldAck", playerId: "spectator_1", tick: 1041 },
+}
+
+describe("encodeMessage / decodeMessage", () => {
+  it.each(Object.values(SAMPLES))("round-trips $type", (data) => {
+    expect(roundTrip(data)).toStrictEqual(data)
+  })
+
+  it("gives every message type a distinct tag", () => {
+    const tags = Object.values(SAMPLES).map((data) => encodeMessage(data)[0])
+    expect(new Set(tags).size).toBe(tags.length)
+  })
+
+  it("rejects truncated messages", () => {
+    const bytes = encodeMessage(SAMPLES.worldSnapshot)
+    expect(() => decodeMessage(bytes.subarray(0, bytes.length - 1))).toThrow("Truncated message")
+  })
+
+  it("rejects unknown type tags", () => {
+    expect(() => decodeMessage(Uint8Array.of(255))).toThrow("Unknown message type tag")
+  })
+
+  it("rejects array lengths larger than the message", () => {
+    const [rosterTag] = encodeMessage({ type: "roster", players: [] })
+    expect(() => decodeMessage(Uint8Array.of(rosterTag, 0x7f))).toThrow("Array length exceeds message size")
+  })
+})
+
+describe("quantization", () => {
+  const fired = (position: { x: number; y: number }, velocity = { x: 0, y: 0 }, rotation = 0) =>
+    roundTrip({ ...SAMPLES.projectileFired, position, velocity, rotation })
+
+  it("rounds positions to 1/8 px and velocities to 1/64 px", () => {
+    const decoded = fired({ x: 100.07, y: -0.07 }, { x: 1.004, y: -2.51 })
+    expect(decoded.position).toEqual({ x: 100.125, y: -0.125 })
+    expect(decoded.velocity).toEqual({ x: 1, y: -2.515625 })
+  })
+
+  it("clamps positions to the signed 16-bit range", () => {
+    const decoded = fired({ x: 5000, y: -5000 })
+    expect(decoded.position).toEqual({ x: 32767 / 8, y: -4096 })
+  })
+
+  it("keeps stats exact at their bounds and to two decimals", () => {
+    const decoded = roundTrip({ ...SAMPLES.playerHit, health: 100, shield: 33.333 })
+    expect(decoded.health).toBe(100)
+    expect(decoded.shield).toBe(33.33)
+    expect(roundTrip({ ...SAMPLES.playerHit, health: 0 }).health).toBe(0)
+  })
+
+  it("wraps angles into (-PI, PI]", () => {
+    expect(fired({ x: 0, y: 0 }, undefined, (3 * Math.PI) / 2).rotation).toBeCloseTo(-Math.PI / 2, 10)
+    expect(fired({ x: 0, y: 0 }, undefined, Math.PI).rotation).toBe(Math.PI)
+    expect(fired({ x: 0, y: 0 }, undefined, -Math.PI).rotation).toBe(Math.PI)
+    expect(fired({ x: 0, y: 0 }, undefined, 4 * Math.PI).rotation).toBe(0)
+  })
+
+  it("resolves angles to 1/65536 of a turn", () => {
+    const step = (Math.PI * 2) / 65536
+    const decoded = fired({ x: 0, y: 0 }, undefined, 1.23456789).rotation
+    expect(Math.abs(decoded - 1.23456789)).toBeLessThanOrEqual(step / 2)
+  })
+
+  it("carries the longest input frame at full 1/10000 s resolution", () => {
+    const frame = { ...SAMPLES.playerInput.frames[0], dt: 0.25 }
+    expect(roundTrip({ ...SAMPLES.playerInput, frames: [frame] }).frames[0].dt).toBe(0.25)
+  })
+
+  it("stores f32 fields at single precision", () => {
+    const decoded = roundTrip({ ...SAMPLES.playerHit, damage: 0.1 })
+    expect(decoded.damage).toBe(Math.fround(0.1))
+  })
+
+  it("round-trips varuints across byte boundaries", () => {
+    for (const tick of [0, 1, 127, 128, 16383, 16384, 0xffffffff, 2 ** 40]) {
+      expect(roundTrip({ type: "stateChecksum", tick, hash: tick }).tick).toBe(tick)
+    }
+  })
+})
+
+describe("optional and partial fields", () => {
+  it("leaves out absent optional fields instead of decoding them as undefined", () => {
+    const frame = { ...SAMPLES.playerInput.frames[0] }
+    delete frame.viewTime
+    const decoded = roundTrip({ type: "playerInput", playerId: "client_1", frames: [frame] })
+    expect(decoded).not.toHaveProperty("ackTick")
+    expect(decoded.frames[0]).not.toHaveProperty("viewTime")
+  })
+
+  it("keeps optional fields that are zero", () => {
+    expect(roundTrip({ ...SAMPLES.playerInput, ackTick: 0 }).ackTick).toBe(0)
+  })
+
+  it("distinguishes a null winner from a named one", () => {
+    expect(roundTrip({ type: "matchEnded", winnerId: null, reason: "timeLimit" }).winnerId).toBeNull()
+  })
+
+  it("round-trips an ack-only envelope", () => {
+    const ack: MessageOf<"envelope"> = { type: "envelope", channel: "unreliable", seq: 0, ack: 5, session: 1, base: 1 }
+    expect(roundTrip(ack)).toStrictEqual(ack)
+  })
+
+  it("round-trips an envelope inside a signed message", () => {
+    const signed: MessageOf<"signed"> = { ...SAMPLES.signed, message: SAMPLES.envelope }
+    expect(roundTrip(signed)).toStrictEqual(signed)
+  })
+
+  it("decodes only the fields a delta entity carries", () => {
+    const decoded = roundTrip(SAMPLES.worldDelta)
+    expect(Object.keys(decoded.players[0]).sort()).toEqual(["health", "playerId", "position"])
+    expect(Object.keys(decoded.asteroids[0]).sort()).toEqual(["id", "rotation"])
+  })
+
+  it("round-trips every field of a delta entity, beyond the first byte of the mask", () => {
+    const delta: MessageOf<"worldDelta"> = { ...SAMPLES.worldDelta, players: [player], asteroids: [asteroid], powerUps: [powerUp] }
+    expect(roundTrip(delta)).toStrictEqual(delta)
+  })
+
+  it("carries false booleans and zero values in a delta", () => {
+    const delta: MessageOf<"worldDelta"> = {
+      ...SAMPLES.worldDelta,
+      players: [{ playerId: "client_1", lastInputSeq: 0, kills: 0 }],
+      powerUps: [{ id: "powerup_1", active: false }],
+    }
+    expect(roundTrip(delta)).toStrictEqual(delta)
+  })
+
+  it("tells a cleared optional field in a delta apart from an unchanged one", () => {
+    const delta: MessageOf<"worldDelta"> = {
+      ...SAMPLES.worldDelta,
+      players: [{ playerId: "client_1", lastInputSeq: undefined }],
+      powerUps: [{ id: "powerup_1", active: true, respawnPosition: undefined }],
+    }
+    const decoded = roundTrip(delta)
+    expect(decoded.players[0]).toHaveProperty("lastInputSeq", undefined)
+    expect(decoded.powerUps[0]).toHaveProperty("respawnPosition", undefined)
+    expect(roundTrip(SAMPLES.worldDelta).powerUps[0]).not.toHaveProperty("respawnPosition")
+  })
+
+  it("keeps an optional field inside a delta entity", () => {
+    const delta: MessageOf<"worldDelta"> = {
+      ...SAMPLES.worldDelta,
+      powerUps: [{ id: "powerup_1", respawnPosition: { x: 10, y: 20 } }],
+    }
+    expect(roundTrip(delta).powerUps[0].respawnPosition).toEqual({ x: 10, y: 20 })
+  })
+})
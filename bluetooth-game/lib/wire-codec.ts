@@ -0,0 +1,639 @@
+import type { NetworkGameData } from "./game-engine"
+
+/**
+ * Describes how a single value is written to the wire
+ */
+type FieldCodec =
+  | { kind: "bool" }
+  | { kind: "varuint" }
+  | { kind: "f32" }
+  | { kind: "f64" }
+  | { kind: "quantized"; scale: number } // Signed 16-bit integer holding value * scale
+  | { kind: "angle" }                    // Unsigned 16-bit fraction of a full turn
+  | { kind: "string" }
+  | { kind: "bytes" }                    // Length-prefixed raw bytes, decoded as a number array
+  | { kind: "enum"; values: readonly string[] }
+  | { kind: "vec2"; component: FieldCodec }
+  | { kind: "optional"; inner: FieldCodec }
+  | { kind: "nullable"; inner: FieldCodec }
+  | { kind: "array"; item: FieldCodec }
+  | { kind: "object"; fields: Layout }
+  | { kind: "partial"; fields: Layout }  // Object whose fields may each be absent or cleared, see writePartial
+  | { kind: "message" }                  // A nested message, tagged like a top-level one
+
+/**
+ * Ordered list of object fields and their codecs. Boolean fields are packed into shared bit flags.
+ */
+type Layout = readonly (readonly [name: string, codec: FieldCodec])[]
+
+const bool: FieldCodec = { kind: "bool" }
+const varuint: FieldCodec = { kind: "varuint" }
+const f32: FieldCodec = { kind: "f32" }
+const f64: FieldCodec = { kind: "f64" }
+const angle: FieldCodec = { kind: "angle" }
+const string: FieldCodec = { kind: "string" }
+const bytes: FieldCodec = { kind: "bytes" }
+const quantized = (scale: number): FieldCodec => ({ kind: "quantized", scale })
+const vec2 = (component: FieldCodec): FieldCodec => ({ kind: "vec2", component })
+const optional = (inner: FieldCodec): FieldCodec => ({ kind: "optional", inner })
+const nullable = (inner: FieldCodec): FieldCodec => ({ kind: "nullable", inner })
+const array = (item: FieldCodec): FieldCodec => ({ kind: "array", item })
+const object = (fields: Layout): FieldCodec => ({ kind: "object", fields })
+const partial = (fields: Layout): FieldCodec => ({ kind: "partial", fields })
+const oneOf = (values: readonly string[]): FieldCodec => ({ kind: "enum", values })
+const message: FieldCodec = { kind: "message" }
+
+/** Positions travel in 1/8 px, enough for an 800x600 world */
+export const POSITION_SCALE = 8
+
+/** Health, shield and energy (0-100) travel with two decimals */
+export const STAT_SCALE = 100
+
+/**
+ * The signed 16-bit integer a quantized field carries for a value. Peers that compare state
+ * (see computeStateChecksum) use it to see values exactly as the other side receives them.
+ * @param value The value to send
+ * @param scale Units per 1 of the value
+ */
+export function quantize(value: number, scale: number): number {
+  return Math.max(-32768, Math.min(32767, Math.round(value * scale)))
+}
+
+const position = vec2(quantized(POSITION_SCALE))
+const velocity = vec2(quantized(64)) // 1/64 px per frame
+const stat = quantized(STAT_SCALE)
+const seconds = quantized(1000)      // Cooldowns and other short durations
+
+const asteroidFields: Layout = [
+  ["id", string],
+  ["position", position],
+  ["velocity", velocity],
+  ["rotation", angle],
+  ["rotationSpeed", f32],
+  ["size", f32],
+  ["health", f32],
+]
+
+const powerUpFields: Layout = [
+  ["id", string],
+  ["position", position],
+  ["type", oneOf(["health", "shield", "energy", "weapon"])],
+  ["value", f32],
+  ["active", bool],
+  ["respawnTime", f32],
+  ["respawnPosition", optional(position)],
+]
+
+const asteroidState = object(asteroidFields)
+const powerUpState = object(powerUpFields)
+
+const playerStateFields: Layout = [
+  ["playerId", string],
+  ["position", position],
+  ["velocity", velocity],
+  ["rotation", angle],
+  ["health", stat],
+  ["shield", stat],
+  ["energy", stat],
+  ["score", f32],
+  ["kills", varuint],
+  ["deaths", varuint],
+  ["weaponCooldown", seconds],
+  ["boostCooldown", seconds],
+  ["lastInputSeq", optional(varuint)],
+]
+
+const projectileState = object([
+  ["id", string],
+  ["ownerId", string],
+  ["position", position],
+  ["velocity", velocity],
+  ["rotation", angle],
+  ["damage", f32],
+  ["lifetime", seconds],
+])
+
+const matchResultFields: Layout = [
+  ["winnerId", nullable(string)],
+  ["reason", oneOf(["timeLimit", "scoreLimit", "forfeit"])],
+]
+
+const worldState = object([
+  ["gameTime", f32],
+  ["inProgress", bool],
+  ["paused", bool],
+  ["matchResult", nullable(object(matchResultFields))],
+  ["players", array(object(playerStateFields))],
+  ["asteroids", array(asteroidState)],
+  ["powerUps", array(powerUpState)],
+  ["projectiles", array(projectileState)],
+])
+
+const inputFrame = object([
+  ["seq", varuint],
+  ["dt", quantized(10000)],
+  ["thrust", bool],
+  ["reverse", bool],
+  ["rotateLeft", bool],
+  ["rotateRight", bool],
+  ["aimAngle", angle],
+  ["fire", bool],
+  ["boost", bool],
+  ["viewTime", optional(f64)],
+])
+
+/**
+ * Wire layout of every message type. The record type makes the compiler flag any message
+ * added to NetworkGameDataSchema without a layout here.
+ */
+const MESSAGE_LAYOUTS: Record<NetworkGameData["type"], Layout> = {
+  ping: [["timestamp", f64]],
+  pong: [
+    ["originTimestamp", f64],
+    ["receiveTimestamp", f64],
+    ["transmitTimestamp", f64],
+  ],
+  worldDelta: [
+    ["tick", varuint],
+    ["baseTick", varuint],
+    ["timestamp", f64],
+    ["gameTime", f32],
+    ["players", array(partial(playerStateFields))],
+    ["removedPlayers", array(string)],
+    ["asteroids", array(partial(asteroidFields))],
+    ["removedAsteroids", array(string)],
+    ["powerUps", array(partial(powerUpFields))],
+    ["removedPowerUps", array(string)],
+  ],
+  playerInput: [
+    ["playerId", string],
+    ["frames", array(inputFrame)],
+    ["ackTick", optional(varuint)],
+  ],
+  projectileFired: [
+    ["projectileId", string],
+    ["ownerId", string],
+    ["position", position],
+    ["velocity", velocity],
+    ["rotation", angle],
+  ],
+  playerHit: [
+    ["playerId", string],
+    ["attackerId", string],
+    ["damage", f32],
+    ["health", stat],
+    ["shield", stat],
+  ],
+  playerDestroyed: [
+    ["playerId", string],
+    ["killerId", string],
+    ["respawnPosition", position],
+  ],
+  powerUpCollected: [
+    ["powerUpId", string],
+    ["playerId", string],
+    ["respawnTime", f32],
+    ["respawnPosition", position],
+  ],
+  asteroidDestroyed: [
+    ["asteroidId", string],
+    ["fragments", array(asteroidState)],
+  ],
+  matchStart: [
+    ["asteroids", array(asteroidState)],
+    ["powerUps", array(powerUpState)],
+  ],
+  matchPaused: [["paused", bool]],
+  matchEnded: matchResultFields,
+  envelope: [
+    ["channel", oneOf(["reliable", "unreliable"])],
+    ["seq", varuint],
+    ["ack", varuint],
+    ["session", varuint],
+    ["base", varuint],
+    ["message", optional(message)],
+  ],
+  worldSnapshot: [
+    ["reason", oneOf(["join", "reconnect", "resync"])],
+    ["world", worldState],
+  ],
+  hello: [
+    ["protocolVersion", varuint],
+    ["buildId", string],
+    ["playerId", string],
+    ["callsign", string],
+    ["ship", string],          // Text rather than an enum so adding liveries never breaks older peers
+    ["features", array(string)],
+  ],
+  matchSettings: [
+    ["durationSeconds", varuint],
+    ["winScore", varuint],
+  ],
+  matchSettingsAccepted: [
+    ["durationSeconds", varuint],
+    ["winScore", varuint],
+  ],
+  signed: [
+    ["counter", varuint],
+    ["mac", bytes],
+    ["message", message],
+  ],
+  snapshotRequest: [["reason", string]],
+  stateChecksum: [
+    ["tick", varuint],
+    ["hash", varuint],
+  ],
+  roster: [
+    [
+      "players",
+      array(
+        object([
+          ["playerId", string],
+          ["slot", varuint],
+          ["callsign", string],
+          ["ship", string],
+        ]),
+      ),
+    ],
+  ],
+  worldAck: [
+    ["playerId", string],
+    ["tick", varuint],
+  ],
+}
+
+// Type tags are the index of each message type in this list; only ever append to it
+const MESSAGE_TYPES = Object.keys(MESSAGE_LAYOUTS) as NetworkGameData["type"][]
+
+const TWO_PI = Math.PI * 2
+
+/**
+ * Growable byte buffer with little-endian primitive writers
+ * @private
+ */
+class ByteWriter {
+  private bytes = new Uint8Array(64)
+  private view = new DataView(this.bytes.buffer)
+  private length = 0
+
+  private reserve(size: number) {
+    if (this.length + size <= this.bytes.length) return
+    let capacity = this.bytes.length * 2
+    while (capacity < this.length + size) capacity *= 2
+    const grown = new Uint8Array(capacity)
+    grown.set(this.bytes)
+    this.bytes = grown
+    this.view = new DataView(grown.buffer)
+  }
+
+  u8(value: number) {
+    this.reserve(1)
+    this.view.setUint8(this.length, value)
+    this.length += 1
+  }
+
+  u16(value: number) {
+    this.reserve(2)
+    this.view.setUint16(this.length, value, true)
+    this.length += 2
+  }
+
+  i16(value: number) {
+    this.reserve(2)
+    this.view.setInt16(this.length, value, true)
+    this.length += 2
+  }
+
+  f32(value: number) {
+    this.reserve(4)
+    this.view.setFloat32(this.length, value, true)
+    this.length += 4
+  }
+
+  f64(value: number) {
+    this.reserve(8)
+    this.view.setFloat64(this.length, value, true)
+    this.length += 8
+  }
+
+  varuint(value: number) {
+    let remaining = Math.max(0, Math.floor(value))
+    do {
+      let byte = remaining % 128
+      remaining = Math.floor(remaining / 128)
+      if (remaining > 0) byte |= 0x80
+      this.u8(byte)
+    } while (remaining > 0)
+  }
+
+  raw(data: Uint8Array) {
+    this.reserve(data.length)
+    this.bytes.set(data, this.length)
+    this.length += data.length
+  }
+
+  finish(): Uint8Array {
+    return this.bytes.slice(0, this.length)
+  }
+}
+
+/**
+ * Bounds-checked reader matching ByteWriter
+ * @private
+ */
+class ByteReader {
+  private view: DataView
+  private offset = 0
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  }
+
+  private take(size: number): number {
+    if (this.offset + size > this.bytes.length) {
+      throw new Error("Truncated message")
+    }
+    const start = this.offset
+    this.offset += size
+    return start
+  }
+
+  u8(): number {
+    return this.view.getUint8(this.take(1))
+  }
+
+  u16(): number {
+    return this.view.getUint16(this.take(2), true)
+  }
+
+  i16(): number {
+    return this.view.getInt16(this.take(2), true)
+  }
+
+  f32(): number {
+    return this.view.getFloat32(this.take(4), true)
+  }
+
+  f64(): number {
+    return this.view.getFloat64(this.take(8), true)
+  }
+
+  varuint(): number {
+    let value = 0
+    let multiplier = 1
+    for (let i = 0; i < 8; i++) {
+      const byte = this.u8()
+      value += (byte & 0x7f) * multiplier
+      if ((byte & 0x80) === 0) return value
+      multiplier *= 128
+    }
+    throw new Error("Varint too long")
+  }
+
+  raw(size: number): Uint8Array {
+    const start = this.take(size)
+    return this.bytes.subarray(start, start + size)
+  }
+
+  get remaining(): number {
+    return this.bytes.length - this.offset
+  }
+}
+
+const textEncoder = new TextEncoder()
+const textDecoder = new TextDecoder()
+
+function writeValue(writer: ByteWriter, codec: FieldCodec, value: unknown) {
+  switch (codec.kind) {
+    case "bool":
+      writer.u8(value ? 1 : 0)
+      break
+    case "varuint":
+      writer.varuint(value as number)
+      break
+    case "f32":
+      writer.f32(value as number)
+      break
+    case "f64":
+      writer.f64(value as number)
+      break
+    case "quantized":
+      writer.i16(quantize(value as number, codec.scale))
+      break
+    case "angle": {
+      const turns = ((((value as number) % TWO_PI) + TWO_PI) % TWO_PI) / TWO_PI
+      writer.u16(Math.round(turns * 65536) % 65536)
+      break
+    }
+    case "string": {
+      const encoded = textEncoder.encode(value as string)
+      writer.varuint(encoded.length)
+      writer.raw(encoded)
+      break
+    }
+    case "bytes": {
+      const data = value as number[]
+      writer.varuint(data.length)
+      writer.raw(Uint8Array.from(data))
+      break
+    }
+    case "enum": {
+      const index = codec.values.indexOf(value as string)
+      if (index < 0) throw new Error(`Unknown enum value: ${String(value)}`)
+      writer.u8(index)
+      break
+    }
+    case "vec2": {
+      const vector = value as { x: number; y: number }
+      writeValue(writer, codec.component, vector.x)
+      writeValue(writer, codec.component, vector.y)
+      break
+    }
+    case "optional":
+    case "nullable": {
+      const present = value !== undefined && value !== null
+      writer.u8(present ? 1 : 0)
+      if (present) writeValue(writer, codec.inner, value)
+      break
+    }
+    case "array": {
+      const items = value as unknown[]
+      writer.varuint(items.length)
+      items.forEach((item) => writeValue(writer, codec.item, item))
+      break
+    }
+    case "object":
+      writeObject(writer, codec.fields, value as Record<string, unknown>)
+      break
+    case "partial":
+      writePartial(writer, codec.fields, value as Record<string, unknown>)
+      break
+    case "message":
+      writeMessage(writer, value as NetworkGameData)
+      break
+  }
+}
+
+function readValue(reader: ByteReader, codec: FieldCodec): unknown {
+  switch (codec.kind) {
+    case "bool":
+      return reader.u8() !== 0
+    case "varuint":
+      return reader.varuint()
+    case "f32":
+      return reader.f32()
+    case "f64":
+      return reader.f64()
+    case "quantized":
+      return reader.i16() / codec.scale
+    case "angle": {
+      // Decode into (-PI, PI] so angles look like the ones Math.atan2 produces
+      const radians = (reader.u16() / 65536) * TWO_PI
+      return radians > Math.PI ? radians - TWO_PI : radians
+    }
+    case "string":
+      return textDecoder.decode(reader.raw(reader.varuint()))
+    case "bytes":
+      return Array.from(reader.raw(reader.varuint()))
+    case "enum": {
+      const value = codec.values[reader.u8()]
+      if (value === undefined) throw new Error("Unknown enum index")
+      return value
+    }
+    case "vec2":
+      return { x: readValue(reader, codec.component), y: readValue(reader, codec.component) }
+    case "optional":
+      return reader.u8() ? readValue(reader, codec.inner) : undefined
+    case "nullable":
+      return reader.u8() ? readValue(reader, codec.inner) : null
+    case "array": {
+      const count = reader.varuint()
+      // Every item takes at least one byte, which bounds allocations for hostile counts
+      if (count > reader.remaining) throw new Error("Array length exceeds message size")
+      const items: unknown[] = []
+      for (let i = 0; i < count; i++) items.push(readValue(reader, codec.item))
+      return items
+    }
+    case "object":
+      return readObject(reader, codec.fields)
+    case "partial":
+      return readPartial(reader, codec.fields)
+    case "message":
+      return readMessage(reader)
+  }
+}
+
+function writeObject(writer: ByteWriter, layout: Layout, value: Record<string, unknown>) {
+  // All booleans of an object share bit flags written ahead of the other fields
+  const flags = layout.filter(([, codec]) => codec.kind === "bool")
+  for (let i = 0; i < flags.length; i += 8) {
+    let byte = 0
+    flags.slice(i, i + 8).forEach(([name], bit) => {
+      if (value[name]) byte |= 1 << bit
+    })
+    writer.u8(byte)
+  }
+
+  layout.forEach(([name, codec]) => {
+    if (codec.kind !== "bool") writeValue(writer, codec, value[name])
+  })
+}
+
+function readObject(reader: ByteReader, layout: Layout): Record<string, unknown> {
+  const result: Record<string, unknown> = {}
+
+  const flags = layout.filter(([, codec]) => codec.kind === "bool")
+  for (let i = 0; i < flags.length; i += 8) {
+    const byte = reader.u8()
+    flags.slice(i, i + 8).forEach(([name], bit) => {
+      result[name] = (byte & (1 << bit)) !== 0
+    })
+  }
+
+  layout.forEach(([name, codec]) => {
+    if (codec.kind === "bool") return
+    const value = readValue(reader, codec)
+    if (value !== undefined) result[name] = value
+  })
+
+  return result
+}
+
+/**
+ * Whether a partial object carries a field: any field with a value, and optional fields that are
+ * set to undefined, which a delta uses to clear a value the receiver still has
+ */
+function carriesField(value: Record<string, unknown>, name: string, codec: FieldCodec): boolean {
+  return value[name] !== undefined || (codec.kind === "optional" && name in value)
+}
+
+/**
+ * Writes a bit mask of the fields that are present, then only those fields. Used for deltas,
+ * where most fields of an entity are unchanged and left out. Optional fields keep their own
+ * presence flag, so "cleared" (decoded as the key set to undefined) differs from "unchanged".
+ */
+function writePartial(writer: ByteWriter, layout: Layout, value: Record<string, unknown>) {
+  for (let i = 0; i < layout.length; i += 8) {
+    let byte = 0
+    layout.slice(i, i + 8).forEach(([name, codec], bit) => {
+      if (carriesField(value, name, codec)) byte |= 1 << bit
+    })
+    writer.u8(byte)
+  }
+
+  layout.forEach(([name, codec]) => {
+    if (carriesField(value, name, codec)) writeValue(writer, codec, value[name])
+  })
+}
+
+function readPartial(reader: ByteReader, layout: Layout): Record<string, unknown> {
+  const present: boolean[] = []
+  for (let i = 0; i < layout.length; i += 8) {
+    const byte = reader.u8()
+    layout.slice(i, i + 8).forEach((_, bit) => present.push((byte & (1 << bit)) !== 0))
+  }
+
+  const result: Record<string, unknown> = {}
+  layout.forEach(([name, codec], index) => {
+    if (present[index]) result[name] = readValue(reader, codec)
+  })
+  return result
+}
+
+function writeMessage(writer: ByteWriter, data: NetworkGameData) {
+  const tag = MESSAGE_TYPES.indexOf(data.type)
+  if (tag < 0) throw new Error(`No wire layout for message type: ${data.type}`)
+
+  writer.u8(tag)
+  writeObject(writer, MESSAGE_LAYOUTS[data.type], data as unknown as Record<string, unknown>)
+}
+
+function readMessage(reader: ByteReader): NetworkGameData {
+  const type = MESSAGE_TYPES[reader.u8()]
+  if (!type) throw new Error("Unknown message type tag")
+
+  return { type, ...readObject(reader, MESSAGE_LAYOUTS[type]) } as NetworkGameData
+}
+
+/**
+ * Encodes a message into its compact binary form: a one-byte type tag followed by the fields
+ * of that message type's layout, with floats quantized where full precision is not needed.
+ * @param data The message to encode
+ * @returns The encoded bytes
+ */
+export function encodeMessage(data: NetworkGameData): Uint8Array {
+  const writer = new ByteWriter()
+  writeMessage(writer, data)
+  return writer.finish()
+}
+
+/**
+ * Decodes bytes produced by encodeMessage. The result has the shape of a message but still
+ * comes from an untrusted peer; validate it before use (GameEngine.handleNetworkUpdate does).
+ * @param bytes The encoded message
+ * @returns The decoded message
+ * @throws Error if the bytes are truncated or carry an unknown type tag
+ */
+export function decodeMessage(bytes: Uint8Array): NetworkGameData {
+  return readMessage(new ByteReader(bytes))
+}
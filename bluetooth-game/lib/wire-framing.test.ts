@@ -0,0 +1,225 @@
+import { describe, expect, it } from "vitest"
+import { GAME_CONFIG, MAX_PLAYERS, type NetworkGameData, type WorldState } from "./game-engine"
+import { MessageTooLargeError } from "./transport"
+import { encodeMessage } from "./wire-codec"
+import { DEFAULT_MAX_FRAME_SIZE, FRAME_HEADER_SIZE, FrameAssembler, MAX_FRAGMENTS, splitIntoFrames } from "./wire-framing"
+
+const PAYLOAD_SIZE = DEFAULT_MAX_FRAME_SIZE - FRAME_HEADER_SIZE
+
+const messageOf = (length: number) => Uint8Array.from({ length }, (_, i) => (i * 31 + 7) & 0xff)
+
+/** Header of a frame as [message id, fragment index, fragment count] */
+const headerOf = (frame: Uint8Array) => [frame[0], (frame[1] << 4) | (frame[2] >> 4), ((frame[2] & 0xf) << 8) | frame[3]]
+
+/**
+ * The largest world a match can produce: every seat taken, every asteroid broken into its
+ * smallest fragments and every pilot firing as fast as the weapon allows, with ids as long as
+ * the engine makes them
+ */
+function createWorstCaseWorld(): WorldState {
+  const players = Array.from({ length: MAX_PLAYERS }, (_, i) => ({
+    playerId: `client_${1718000000000 + i}`,
+    position: { x: 799.875, y: 599.875 },
+    velocity: { x: -312.5, y: 287.25 },
+    rotation: 3.1,
+    health: 99.99,
+    shield: 49.99,
+    energy: 99.99,
+    score: 99999,
+    kills: 999,
+    deaths: 999,
+    weaponCooldown: 0.199,
+    boostCooldown: 2.999,
+    lastInputSeq: 0x1fffff,
+  }))
+  // 25 asteroids, each splitting twice into four fragments
+  const asteroids = Array.from({ length: 100 }, (_, i) => ({
+    id: `asteroid_frag_${100000 + i}`,
+    position: { x: 799.875, y: 599.875 },
+    velocity: { x: -2.875, y: 2.875 },
+    rotation: 6.2,
+    rotationSpeed: -0.099,
+    size: 15.125,
+    health: 25,
+  }))
+  const powerUps = Array.from({ length: 8 }, (_, i) => ({
+    id: `powerup_${i}`,
+    position: { x: 799.875, y: 599.875 },
+    type: "weapon" as const,
+    value: 49.99,
+    active: false,
+    respawnTime: 9.99,
+    respawnPosition: { x: 799.875, y: 599.875 },
+  }))
+  const shotsInFlight = Math.ceil(GAME_CONFIG.PROJECTILE_LIFETIME / GAME_CONFIG.WEAPON_COOLDOWN)
+  const projectiles = Array.from({ length: MAX_PLAYERS * shotsInFlight }, (_, i) => ({
+    id: `projectile_${100000 + i}`,
+    ownerId: players[i % MAX_PLAYERS].playerId,
+    position: { x: 799.875, y: 599.875 },
+    velocity: { x: -399.99, y: 399.99 },
+    rotation: 3.1,
+    damage: 25,
+    lifetime: 2.99,
+  }))
+  return {
+    gameTime: 1799.99,
+    inProgress: true,
+    paused: false,
+    matchResult: null,
+    players,
+    asteroids,
+    powerUps,
+    projectiles,
+  }
+}
+
+/** Pushes frames in the given order and returns every message that completed */
+function reassemble(assembler: FrameAssembler, frames: Uint8Array[]): Uint8Array[] {
+  return frames.map((frame) => assembler.push(frame)).filter((message): message is Uint8Array => message !== null)
+}
+
+describe("splitIntoFrames", () => {
+  it("keeps a message that fits in one frame whole", () => {
+    const frames = splitIntoFrames(messageOf(PAYLOAD_SIZE), 9)
+    expect(frames).toHaveLength(1)
+    expect(headerOf(frames[0])).toEqual([9, 0, 1])
+  })
+
+  it("still sends one frame for an empty message", () => {
+    expect(splitIntoFrames(new Uint8Array(0), 0)).toEqual([Uint8Array.of(0, 0, 0, 1)])
+  })
+
+  it("splits a message into frames no larger than the limit", () => {
+    const frames = splitIntoFrames(messageOf(100), 3)
+    expect(frames).toHaveLength(Math.ceil(100 / PAYLOAD_SIZE))
+    frames.forEach((frame, index) => {
+      expect(frame.length).toBeLessThanOrEqual(DEFAULT_MAX_FRAME_SIZE)
+      expect(headerOf(frame)).toEqual([3, index, frames.length])
+    })
+  })
+
+  it("wraps message ids into a byte", () => {
+    expect(splitIntoFrames(messageOf(4), 256 + 5)[0][0]).toBe(5)
+  })
+
+  it("uses larger frames when the link allows them", () => {
+    expect(splitIntoFrames(messageOf(500), 0, 512)).toHaveLength(1)
+  })
+
+  it("numbers fragments past 255", () => {
+    const frames = splitIntoFrames(messageOf(300 * PAYLOAD_SIZE), 1)
+    expect(headerOf(frames[299])).toEqual([1, 299, 300])
+  })
+
+  it("accepts a message of exactly MAX_FRAGMENTS fragments and rejects anything larger", () => {
+    expect(splitIntoFrames(messageOf(MAX_FRAGMENTS * PAYLOAD_SIZE), 1)).toHaveLength(MAX_FRAGMENTS)
+    expect(() => splitIntoFrames(messageOf(MAX_FRAGMENTS * PAYLOAD_SIZE + 1), 1)).toThrow(MessageTooLargeError)
+  })
+
+  it("fits the largest world a match can produce, signed and in its envelope", () => {
+    const snapshot: NetworkGameData = {
+      type: "signed",
+      counter: 0x1fffff,
+      mac: new Array(16).fill(255),
+      message: {
+        type: "envelope",
+        channel: "reliable",
+        seq: 0x1fffff,
+        ack: 0x1fffff,
+        session: 0x1fffff,
+        base: 0x1fffff,
+        message: { type: "worldSnapshot", reason: "join", world: createWorstCaseWorld() },
+      },
+    }
+    const frames = splitIntoFrames(encodeMessage(snapshot), 1)
+    // Leave room for the world to grow before it reaches the limit
+    expect(frames.length).toBeLessThan(MAX_FRAGMENTS / 2)
+  })
+
+  it("rejects frame sizes that leave no room for payload", () => {
+    expect(() => splitIntoFrames(messageOf(1), 0, FRAME_HEADER_SIZE)).toThrow("no room for payload")
+  })
+})
+
+describe("FrameAssembler", () => {
+  it("reassembles frames that arrive in order", () => {
+    const message = messageOf(100)
+    const assembler = new FrameAssembler()
+    expect(reassemble(assembler, splitIntoFrames(message, 1))).toEqual([message])
+  })
+
+  it("reassembles frames that arrive in reverse or shuffled order", () => {
+    const message = messageOf(150)
+    const frames = splitIntoFrames(message, 1)
+    expect(reassemble(new FrameAssembler(), [...frames].reverse())).toEqual([message])
+
+    const shuffled = [frames[3], frames[9], frames[0], frames[8], frames[1], frames[5], frames[2], frames[7], frames[4], frames[6]]
+    expect(shuffled).toHaveLength(frames.length)
+    expect(reassemble(new FrameAssembler(), shuffled)).toEqual([message])
+  })
+
+  it("returns a message only once its last missing frame arrives", () => {
+    const frames = splitIntoFrames(messageOf(60), 1)
+    const assembler = new FrameAssembler()
+    expect(assembler.push(frames[2])).toBeNull()
+    expect(assembler.push(frames[0])).toBeNull()
+    expect(assembler.push(frames[3])).toBeNull()
+    expect(assembler.push(frames[1])).toEqual(messageOf(60))
+  })
+
+  it("ignores duplicated frames", () => {
+    const frames = splitIntoFrames(messageOf(40), 1)
+    const assembler = new FrameAssembler()
+    expect(reassemble(assembler, [frames[0], frames[0], frames[1], frames[1], frames[2]])).toEqual([messageOf(40)])
+  })
+
+  it("separates interleaved messages by id", () => {
+    const first = messageOf(60)
+    const second = messageOf(70).reverse()
+    const a = splitIntoFrames(first, 1)
+    const b = splitIntoFrames(second, 2)
+    const interleaved = [b[0], a[0], b[1], a[1], b[2], a[2], b[3], b[4], a[3]]
+    expect(reassemble(new FrameAssembler(), interleaved)).toEqual([second, first])
+  })
+
+  it("reassembles a message of the maximum number of fragments", () => {
+    const message = messageOf(MAX_FRAGMENTS * PAYLOAD_SIZE)
+    const frames = splitIntoFrames(message, 200)
+    expect(reassemble(new FrameAssembler(), [...frames].reverse())).toEqual([message])
+  })
+
+  it("starts over when a message id is reused with a different fragment count", () => {
+    const stale = splitIntoFrames(messageOf(60), 4)
+    const fresh = splitIntoFrames(messageOf(30), 4)
+    const assembler = new FrameAssembler()
+    expect(reassemble(assembler, [stale[0], stale[1], ...fresh])).toEqual([messageOf(30)])
+  })
+
+  it("drops incomplete messages after the reassembly timeout", () => {
+    let now = 0
+    const assembler = new FrameAssembler(() => now)
+    const frames = splitIntoFrames(messageOf(40), 1)
+    assembler.push(frames[0])
+    assembler.push(frames[1])
+
+    now += 2001
+    // The other message triggers the expiry; the stale fragments never complete
+    assembler.push(splitIntoFrames(messageOf(40), 2)[0])
+    expect(assembler.push(frames[2])).toBeNull()
+  })
+
+  it("forgets partial messages on reset", () => {
+    const frames = splitIntoFrames(messageOf(40), 1)
+    const assembler = new FrameAssembler()
+    assembler.push(frames[0])
+    assembler.reset()
+    expect(reassemble(assembler, frames.slice(1))).toEqual([])
+  })
+
+  it("rejects malformed frame headers", () => {
+    const assembler = new FrameAssembler()
+    expect(() => assembler.push(Uint8Array.of(1, 0, 0))).toThrow("shorter than its header")
+    expect(() => assembler.push(Uint8Array.of(1, 0, 0, 0))).toThrow("Invalid frame header")
+    expect(() => assembler.push(Uint8Array.of(1, 0, 0x20, 2, 0xaa))).toThrow("Invalid frame header")
+  })
+})
@@ -0,0 +1,128 @@
+import { MessageTooLargeError } from "./transport"
+
+/**
+ * Splits encoded messages into frames that fit a single BLE characteristic write and puts them
+ * back together on the other side.
+ *
+ * Frame layout: [message id: u8][fragment index: u12][fragment count: u12][payload...], the index
+ * and count packed big-endian into three bytes
+ */
+
+/** Bytes of header at the start of every frame */
+export const FRAME_HEADER_SIZE = 4
+
+/** Default ATT MTU (23) minus the 3-byte ATT header: the payload size every BLE link supports */
+export const DEFAULT_MAX_FRAME_SIZE = 20
+
+/** Incomplete messages are discarded after this long */
+const REASSEMBLY_TIMEOUT_MS = 2000
+
+/** Most fragments a single message can be split into; about 64 kB in 20-byte frames, enough for a full world */
+export const MAX_FRAGMENTS = 0xfff
+
+/**
+ * Splits a message into frames of at most maxFrameSize bytes
+ * @param message The encoded message
+ * @param messageId Identifier shared by all frames of this message (0-255, wraps)
+ * @param maxFrameSize Largest frame the link can carry, header included
+ * @returns The frames in order
+ * @throws MessageTooLargeError if the message needs more than MAX_FRAGMENTS frames
+ */
+export function splitIntoFrames(message: Uint8Array, messageId: number, maxFrameSize = DEFAULT_MAX_FRAME_SIZE): Uint8Array[] {
+  const payloadSize = maxFrameSize - FRAME_HEADER_SIZE
+  if (payloadSize <= 0) {
+    throw new Error(`Frame size ${maxFrameSize} leaves no room for payload`)
+  }
+
+  const count = Math.max(1, Math.ceil(message.length / payloadSize))
+  if (count > MAX_FRAGMENTS) {
+    throw new MessageTooLargeError(`Message of ${message.length} bytes is too large to frame`)
+  }
+
+  const frames: Uint8Array[] = []
+  for (let index = 0; index < count; index++) {
+    const chunk = message.subarray(index * payloadSize, (index + 1) * payloadSize)
+    const frame = new Uint8Array(FRAME_HEADER_SIZE + chunk.length)
+    frame[0] = messageId & 0xff
+    frame[1] = index >> 4
+    frame[2] = ((index & 0xf) << 4) | (count >> 8)
+    frame[3] = count & 0xff
+    frame.set(chunk, FRAME_HEADER_SIZE)
+    frames.push(frame)
+  }
+  return frames
+}
+
+/**
+ * Collects frames produced by splitIntoFrames and returns each message once all of its frames
+ * have arrived. Frames of different messages may interleave.
+ */
+export class FrameAssembler {
+  private partial: Map<number, { parts: (Uint8Array | undefined)[]; received: number; startedAt: number }> = new Map()
+  private readonly now: () => number
+
+  /**
+   * @param now Clock used to expire incomplete messages; defaults to Date.now
+   */
+  constructor(now: () => number = () => Date.now()) {
+    this.now = now
+  }
+
+  /**
+   * Adds a received frame
+   * @param frame The frame bytes
+   * @returns The complete message if this frame finished one, otherwise null
+   * @throws Error if the frame header is malformed
+   */
+  push(frame: Uint8Array): Uint8Array | null {
+    if (frame.length < FRAME_HEADER_SIZE) {
+      throw new Error("Frame shorter than its header")
+    }
+
+    const messageId = frame[0]
+    const index = (frame[1] << 4) | (frame[2] >> 4)
+    const count = ((frame[2] & 0xf) << 8) | frame[3]
+    if (count === 0 || index >= count) {
+      throw new Error("Invalid frame header")
+    }
+
+    const payload = frame.slice(FRAME_HEADER_SIZE)
+    if (count === 1) return payload
+
+    this.expireStale()
+
+    let entry = this.partial.get(messageId)
+    // A different fragment count means the id wrapped around to a new message
+    if (!entry || entry.parts.length !== count) {
+      entry = { parts: new Array(count).fill(undefined), received: 0, startedAt: this.now() }
+      this.partial.set(messageId, entry)
+    }
+
+    if (!entry.parts[index]) {
+      entry.parts[index] = payload
+      entry.received++
+    }
+    if (entry.received < count) return null
+
+    this.partial.delete(messageId)
+    const parts = entry.parts as Uint8Array[]
+    const message = new Uint8Array(parts.reduce((size, part) => size + part.length, 0))
+    let offset = 0
+    parts.forEach((part) => {
+      message.set(part, offset)
+      offset += part.length
+    })
+    return message
+  }
+
+  reset() {
+    this.partial.clear()
+  }
+
+  private expireStale() {
+    const cutoff = this.now() - REASSEMBLY_TIMEOUT_MS
+    this.partial.forEach((entry, messageId) => {
+      if (entry.startedAt < cutoff) this.partial.delete(messageId)
+    })
+  }
+}
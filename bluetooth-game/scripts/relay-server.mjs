@@ -0,0 +1,285 @@
+// Stellar Clash WebSocket relay for LAN play and automated tests.
+//
+//   npm run relay                 # listens on 0.0.0.0:8787
+//   RELAY_PORT=9000 npm run relay
+//
+// Peers connect to ws://<relay>:<port>/?room=<code>&role=<host|client>. Within a room the relay
+// pairs each host link with the next client link (in either arrival order) and forwards binary
+// frames between the two unchanged; it never decodes game data, which stays signed end to end.
+// A host serving several clients opens one link per client, like it does over Bluetooth.
+//
+// Implements just enough of RFC 6455 for that on top of node:http, so it runs offline with no
+// dependencies beyond Node itself.
+
+import { createHash } from "node:crypto"
+import { createServer } from "node:http"
+
+const PORT = Number(process.env.RELAY_PORT ?? 8787)
+const HOST = process.env.RELAY_HOST ?? "0.0.0.0"
+
+/** Room codes as generated by lib/websocket-transport.ts */
+const ROOM_CODE_PATTERN = /^[A-Z0-9]{4,8}$/
+
+/** Largest frame or fragmented message accepted from a peer; game messages are a few hundred bytes, snapshots a few kB */
+const MAX_PAYLOAD_BYTES = 64 * 1024
+
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11"
+
+const OPCODE_CONTINUATION = 0x0
+const OPCODE_TEXT = 0x1
+const OPCODE_BINARY = 0x2
+const OPCODE_CLOSE = 0x8
+const OPCODE_PING = 0x9
+const OPCODE_PONG = 0xa
+
+/** Close code sent to a peer whose partner left */
+const CLOSE_PEER_LEFT = 4000
+
+/**
+ * Server end of one WebSocket connection: parses client frames and writes unmasked server frames
+ */
+class RelaySocket {
+  /** @type {(payload: Buffer, binary: boolean) => void} */
+  onMessage = () => {}
+  /** @type {() => void} */
+  onClose = () => {}
+  partner = null          // RelaySocket this one is paired with, once paired
+  closed = false
+  buffer = Buffer.alloc(0)
+  fragments = []          // Payloads of a fragmented message received so far
+  fragmentBytes = 0       // Total size of those payloads
+  fragmentOpcode = 0
+
+  /**
+   * @param {import("node:net").Socket} socket The upgraded TCP socket
+   * @param {string} room Room code
+   * @param {"host" | "client"} role Side of the match this peer plays
+   */
+  constructor(socket, room, role) {
+    this.socket = socket
+    this.room = room
+    this.role = role
+    socket.setNoDelay(true)
+    socket.on("data", (chunk) => this.receive(chunk))
+    socket.on("close", () => this.handleClosed())
+    socket.on("error", () => socket.destroy())
+  }
+
+  /**
+   * Sends a message to this peer
+   * @param {Buffer} payload Message bytes
+   * @param {boolean} binary Binary (game data) or text (relay control) frame
+   */
+  send(payload, binary) {
+    this.writeFrame(binary ? OPCODE_BINARY : OPCODE_TEXT, payload)
+  }
+
+  /**
+   * Starts the closing handshake
+   * @param {number} code WebSocket close code
+   * @param {string} reason Short human-readable reason
+   */
+  close(code, reason) {
+    if (this.closed) return
+    const reasonBytes = Buffer.from(reason)
+    const payload = Buffer.alloc(2 + reasonBytes.length)
+    payload.writeUInt16BE(code, 0)
+    reasonBytes.copy(payload, 2)
+    this.writeFrame(OPCODE_CLOSE, payload)
+    this.socket.end()
+    this.handleClosed()
+  }
+
+  writeFrame(opcode, payload) {
+    if (this.closed || this.socket.destroyed) return
+    let header
+    if (payload.length < 126) {
+      header = Buffer.from([0x80 | opcode, payload.length])
+    } else if (payload.length < 0x10000) {
+      header = Buffer.alloc(4)
+      header[0] = 0x80 | opcode
+      header[1] = 126
+      header.writeUInt16BE(payload.length, 2)
+    } else {
+      header = Buffer.alloc(10)
+      header[0] = 0x80 | opcode
+      header[1] = 127
+      header.writeBigUInt64BE(BigInt(payload.length), 2)
+    }
+    this.socket.write(Buffer.concat([header, payload]))
+  }
+
+  receive(chunk) {
+    this.buffer = Buffer.concat([this.buffer, chunk])
+
+    while (this.buffer.length >= 2) {
+      const fin = (this.buffer[0] & 0x80) !== 0
+      const opcode = this.buffer[0] & 0x0f
+      const masked = (this.buffer[1] & 0x80) !== 0
+      let length = this.buffer[1] & 0x7f
+      let offset = 2
+
+      if (length === 126) {
+        if (this.buffer.length < 4) return
+        length = this.buffer.readUInt16BE(2)
+        offset = 4
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return
+        length = Number(this.buffer.readBigUInt64BE(2))
+        offset = 10
+      }
+
+      // Clients must mask every frame (RFC 6455, section 5.1)
+      if (!masked) {
+        this.close(1002, "unmasked frame")
+        return
+      }
+      if (length > MAX_PAYLOAD_BYTES) {
+        this.close(1009, "message too big")
+        return
+      }
+      if (this.buffer.length < offset + 4 + length) return
+
+      const mask = this.buffer.subarray(offset, offset + 4)
+      const payload = Buffer.from(this.buffer.subarray(offset + 4, offset + 4 + length))
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4]
+      this.buffer = this.buffer.subarray(offset + 4 + length)
+
+      this.handleFrame(fin, opcode, payload)
+      if (this.closed) return
+    }
+  }
+
+  handleFrame(fin, opcode, payload) {
+    switch (opcode) {
+      case OPCODE_PING:
+        this.writeFrame(OPCODE_PONG, payload)
+        return
+      case OPCODE_PONG:
+        return
+      case OPCODE_CLOSE:
+        this.close(payload.length >= 2 ? payload.readUInt16BE(0) : 1000, "")
+        return
+      case OPCODE_CONTINUATION:
+      case OPCODE_TEXT:
+      case OPCODE_BINARY: {
+        if (opcode !== OPCODE_CONTINUATION) this.fragmentOpcode = opcode
+        // Small frames must not add up to a message larger than a single frame may be
+        this.fragmentBytes += payload.length
+        if (this.fragmentBytes > MAX_PAYLOAD_BYTES) {
+          this.close(1009, "message too big")
+          return
+        }
+        this.fragments.push(payload)
+        if (!fin) return
+        const message = Buffer.concat(this.fragments)
+        this.fragments = []
+        this.fragmentBytes = 0
+        this.onMessage(message, this.fragmentOpcode === OPCODE_BINARY)
+        return
+      }
+      default:
+        this.close(1002, "unknown opcode")
+    }
+  }
+
+  handleClosed() {
+    if (this.closed) return
+    this.closed = true
+    this.socket.destroy()
+    this.onClose()
+  }
+}
+
+/** @type {Map<string, { host: RelaySocket[], client: RelaySocket[] }>} Peers waiting for a partner, per room */
+const rooms = new Map()
+let pairedLinks = 0
+
+/**
+ * Pairs a new peer with a waiting peer of the other role in its room, or queues it
+ * @param {RelaySocket} peer The peer that just connected
+ */
+function join(peer) {
+  const room = rooms.get(peer.room) ?? { host: [], client: [] }
+  rooms.set(peer.room, room)
+
+  const partner = room[peer.role === "host" ? "client" : "host"].shift()
+  if (!partner) {
+    room[peer.role].push(peer)
+    log(`${peer.role} waiting in room ${peer.room}`)
+    return
+  }
+
+  peer.partner = partner
+  partner.partner = peer
+  pairedLinks++
+  const paired = Buffer.from(JSON.stringify({ type: "paired" }))
+  peer.send(paired, false)
+  partner.send(paired, false)
+  log(`paired a host and a client in room ${peer.room}`)
+}
+
+/**
+ * Removes a peer that closed; its partner loses the link too, as it would over Bluetooth
+ * @param {RelaySocket} peer The peer that closed
+ */
+function leave(peer) {
+  const room = rooms.get(peer.room)
+  if (room) {
+    room[peer.role] = room[peer.role].filter((waiting) => waiting !== peer)
+    if (room.host.length === 0 && room.client.length === 0) rooms.delete(peer.room)
+  }
+
+  const partner = peer.partner
+  if (partner) {
+    peer.partner = null
+    partner.partner = null
+    pairedLinks--
+    partner.close(CLOSE_PEER_LEFT, "peer left")
+    log(`link in room ${peer.room} closed`)
+  }
+}
+
+function log(message) {
+  console.log(`[relay] ${message}`)
+}
+
+const server = createServer((_, res) => {
+  res.writeHead(200, { "Content-Type": "text/plain" })
+  res.end(`Stellar Clash relay: ${pairedLinks} links, ${rooms.size} rooms with waiting peers\n`)
+})
+
+server.on("upgrade", (req, socket, head) => {
+  const url = new URL(req.url ?? "/", "http://relay")
+  const room = (url.searchParams.get("room") ?? "").toUpperCase()
+  const role = url.searchParams.get("role")
+  const key = req.headers["sec-websocket-key"]
+
+  if (!key || req.headers.upgrade?.toLowerCase() !== "websocket" || !ROOM_CODE_PATTERN.test(room) || (role !== "host" && role !== "client")) {
+    socket.end("HTTP/1.1 400 Bad Request\r\nConnection: close\r\n\r\n")
+    return
+  }
+
+  const accept = createHash("sha1").update(key + WEBSOCKET_GUID).digest("base64")
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\n" +
+      "Connection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`,
+  )
+
+  const peer = new RelaySocket(socket, room, role)
+  // Only game data is forwarded; control messages flow from the relay to peers, never between them
+  peer.onMessage = (payload, binary) => {
+    if (binary) peer.partner?.send(payload, true)
+  }
+  peer.onClose = () => leave(peer)
+  join(peer)
+  // Frames the peer sent right behind its handshake arrive with it rather than as socket data
+  if (head.length > 0) peer.receive(head)
+})
+
+// RELAY_PORT=0 picks a free port; the log line reports the one actually bound
+server.listen(PORT, HOST, () => {
+  log(`listening on ws://${HOST}:${server.address().port}`)
+})
@@ -0,0 +1,12 @@
+import { defineConfig } from "vitest/config"
+
+export default defineConfig({
+  test: {
+    poolOptions: {
+      forks: {
+        // WebSocketTransport tests need the WebSocket global, which Node 20 keeps behind a flag
+        execArgv: typeof WebSocket === "undefined" ? ["--experimental-websocket"] : [],
+      },
+    },
+  },
+})